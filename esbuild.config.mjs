@@ -1,6 +1,8 @@
 import esbuild from "esbuild";
 import process from "process";
 import builtins from "builtin-modules";
+import fs from "fs";
+import path from "path";
 
 const banner =
 `/*
@@ -11,6 +13,51 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// Ship the PGlite runtime assets next to main.js so the plugin can start offline
+const pgliteDist = "node_modules/@electric-sql/pglite/dist";
+const pgliteVersion = JSON.parse(fs.readFileSync("node_modules/@electric-sql/pglite/package.json", "utf8")).version;
+// The cache folder, download URL and asset hashes in PGliteResourceCache are pinned to one version
+const pinnedVersion = fs.readFileSync("src/storage/PGliteResourceCache.ts", "utf8").match(/PGLITE_VERSION = '([^']+)'/)[1];
+if (pgliteVersion !== pinnedVersion) {
+	throw new Error(`Installed PGlite ${pgliteVersion} does not match PGLITE_VERSION ${pinnedVersion}; update the version and asset hashes together`);
+}
+const pgliteAssetsDir = `pglite-assets/${pgliteVersion}`;
+fs.mkdirSync(pgliteAssetsDir, { recursive: true });
+for (const asset of ["postgres.data", "postgres.wasm", "vector.tar.gz"]) {
+	fs.copyFileSync(`${pgliteDist}/${asset}`, `${pgliteAssetsDir}/${asset}`);
+}
+
+// Bundle `inline-worker:<path>` imports on their own and inline them as source text,
+// so a worker can be started from a blob URL without shipping another file
+const inlineWorkerPlugin = {
+	name: "inline-worker",
+	setup(build) {
+		build.onResolve({ filter: /^inline-worker:/ }, (args) => ({
+			path: path.resolve(args.resolveDir, args.path.substring("inline-worker:".length) + ".ts"),
+			namespace: "inline-worker",
+		}));
+		build.onLoad({ filter: /.*/, namespace: "inline-worker" }, async (args) => {
+			const result = await esbuild.build({
+				entryPoints: [args.path],
+				bundle: true,
+				write: false,
+				metafile: true,
+				format: "iife",
+				platform: "browser",
+				target: "es2020",
+				external: builtins,
+				minify: prod,
+				logLevel: "warning",
+			});
+			return {
+				contents: `export default ${JSON.stringify(result.outputFiles[0].text)};`,
+				loader: "js",
+				watchFiles: Object.keys(result.metafile.inputs).map((input) => path.resolve(input)),
+			};
+		});
+	},
+};
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -38,6 +85,7 @@ const context = await esbuild.context({
 	sourcemap: "inline",
 	treeShaking: true,
 	outfile: "main.js",
+	plugins: [inlineWorkerPlugin],
 	minify: false,
 	define: {
 		// Prevent PGlite from detecting a Node environment
@@ -1,24 +1,89 @@
 import { App, Editor, MarkdownView, Modal, Notice, Plugin, ButtonComponent } from 'obsidian';
 import { PGLitePluginSettings, DEFAULT_SETTINGS } from './src/settings/PGLitePluginSettings';
 import { PGLiteSettingTab } from './src/settings/PGLiteSettingTab';
-import { PGliteProvider } from './src/storage/PGliteProvider';
-import { CreateVectorTableCommand, InsertNoteAsVectorCommand, SearchSimilarToNoteCommand, SearchSimilarWithCustomLimitCommand } from './src/commands/VectorCommands';
-import { CreateTableCommand, InsertNoteDataCommand, InsertTestDataCommand, QueryTestDataCommand } from './src/commands/DatabaseCommands';
+import { DatabaseAccess, DatabaseRecovery, PGliteProvider } from './src/storage/PGliteProvider';
+import { DataDirCorruptionError } from './src/storage/DataDirStore';
+import { MigrationError } from './src/storage/MigrationRunner';
+import { DatabaseRecoveryModal } from './src/ui/DatabaseRecoveryModal';
+import { DatabaseLockedError } from './src/storage/DatabaseLock';
+import { DatabaseLockedModal } from './src/ui/DatabaseLockedModal';
+import { PassphraseRequiredError, WrongPassphraseError } from './src/storage/DatabaseEncryption';
+import { PassphraseModal } from './src/ui/PassphraseModal';
+import { PGliteApi, PGlitePluginApi } from './src/api/PGliteApi';
+import { QueryBlockRenderer } from './src/ui/QueryBlockRenderer';
+import { DATABASE_HEALTH_VIEW_TYPE, DatabaseHealthView } from './src/ui/DatabaseHealthView';
+import { deleteDatabaseFiles, isValidDatabaseName, renameDatabaseFiles } from './src/storage/DatabaseFiles';
+import { VaultIndexer, IndexProgress } from './src/indexing/VaultIndexer';
+import { IncrementalIndexer } from './src/indexing/IncrementalIndexer';
+import { ModelMigration } from './src/indexing/ModelMigration';
+import { CancelVaultIndexingCommand, CreateVectorTableCommand, IndexVaultCommand, InsertNoteAsVectorCommand, PauseVaultIndexingCommand, RebuildVectorIndexCommand, SearchNotesCommand, SearchSimilarToNoteCommand, SearchSimilarWithCustomLimitCommand } from './src/commands/VectorCommands';
+import { BackupDatabaseCommand, ChangePassphraseCommand, CreateTableCommand, ExportSqlCommand, ImportSqlCommand, InsertNoteDataCommand, InsertTestDataCommand, QueryTestDataCommand, RestoreDatabaseCommand, SwitchDatabaseCommand } from './src/commands/DatabaseCommands';
 
 export default class PGLitePlugin extends Plugin {
 	settings: PGLitePluginSettings;
 	provider: PGliteProvider | null = null;
+	// Public API for other plugins and scripts, see PGlitePluginApi
+	api: PGlitePluginApi;
+	private apiImpl: PGliteApi;
+	// Embeds all notes of the vault, see IndexVaultCommand
+	indexer: VaultIndexer;
+	// Re-embeds notes as they change, see the automatic indexing settings
+	autoIndexer: IncrementalIndexer;
+	// Re-embeds the notes after the model was changed, see the embedding model setting
+	migration: ModelMigration;
+	private statusBarItemEl: HTMLElement | null = null;
+	private indexStatusBarItemEl: HTMLElement | null = null;
+	private queueStatusBarItemEl: HTMLElement | null = null;
+	// Passphrases entered this session, so reopening an encrypted database does not ask again
+	private passphrases: Map<string, string> = new Map();
+	// Whether interrupted jobs are to be resumed once the layout is ready
+	private resumePending: boolean = false;
 
 	async onload() {
 		await this.loadSettings();
 
+		this.apiImpl = new PGliteApi(this);
+		this.api = this.apiImpl;
+
+		// This adds a status bar item to the bottom of the app. Does not work on mobile apps.
+		this.statusBarItemEl = this.addStatusBarItem();
+
+		// Vault indexing progress, hidden while there is no job; click to pause or resume
+		this.indexer = new VaultIndexer(this.app);
+		this.migration = new ModelMigration(this);
+		this.indexStatusBarItemEl = this.addStatusBarItem();
+		this.indexStatusBarItemEl.style.cursor = 'pointer';
+		this.indexStatusBarItemEl.hide();
+		this.registerDomEvent(this.indexStatusBarItemEl, 'click', async () => {
+			if (this.indexer.pause()) return;
+			if (this.settings.pendingModel) {
+				await this.migration.resume();
+			} else {
+				await new IndexVaultCommand(this).execute();
+			}
+		});
+		this.registerEvent(this.indexer.on('progress', (progress: IndexProgress) => {
+			this.updateIndexStatusBar(progress);
+		}));
+
+		// Notes waiting for automatic indexing, hidden while the queue is empty
+		this.autoIndexer = new IncrementalIndexer(this);
+		this.queueStatusBarItemEl = this.addStatusBarItem();
+		this.queueStatusBarItemEl.hide();
+		this.registerEvent(this.autoIndexer.on('queue-change', (length: number) => {
+			this.queueStatusBarItemEl?.setText(`Index queue: ${length}`);
+			this.queueStatusBarItemEl?.toggle(length > 0);
+		}));
+
 		// Initialize PGlite with our DatabaseManager
 		await this.initializePGlite();
 
 		// This creates an icon in the left ribbon.
 		const ribbonIconEl = this.addRibbonIcon('database', 'PGlite Plugin', async (evt: MouseEvent) => {
 			// Called when the user clicks the icon.
-			if (this.provider?.isReady()) {
+			if (this.provider?.isReadOnly()) {
+				new Notice('PGlite database is open read-only');
+			} else if (this.provider?.isReady()) {
 				await this.provider.save();
 				new Notice('PGlite database saved!');
 			} else {
@@ -28,10 +93,6 @@ export default class PGLitePlugin extends Plugin {
 		// Perform additional things with the ribbon
 		ribbonIconEl.addClass('pglite-plugin-ribbon-class');
 
-		// This adds a status bar item to the bottom of the app. Does not work on mobile apps.
-		const statusBarItemEl = this.addStatusBarItem();
-		statusBarItemEl.setText('PGlite: ' + (this.provider?.isReady() ? 'Connected' : 'Disconnected'));
-
 		// Database-related commands
 		this.addCommand({
 			id: 'pglite-create-test-table',
@@ -69,6 +130,68 @@ export default class PGLitePlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'pglite-switch-database',
+			name: 'Switch database',
+			callback: async () => {
+				const command = new SwitchDatabaseCommand(this);
+				await command.execute();
+			}
+		});
+
+		this.addCommand({
+			id: 'pglite-backup-database',
+			name: 'Backup database now',
+			callback: async () => {
+				const command = new BackupDatabaseCommand(this);
+				await command.execute();
+			}
+		});
+
+		this.addCommand({
+			id: 'pglite-restore-database',
+			name: 'Restore database from backup…',
+			callback: async () => {
+				const command = new RestoreDatabaseCommand(this);
+				await command.execute();
+			}
+		});
+
+		this.addCommand({
+			id: 'pglite-export-sql',
+			name: 'Export database as SQL',
+			callback: async () => {
+				const command = new ExportSqlCommand(this);
+				await command.execute();
+			}
+		});
+
+		this.addCommand({
+			id: 'pglite-import-sql',
+			name: 'Import SQL file…',
+			callback: async () => {
+				const command = new ImportSqlCommand(this);
+				await command.execute();
+			}
+		});
+
+		this.addCommand({
+			id: 'pglite-change-passphrase',
+			name: 'Change database passphrase',
+			callback: async () => {
+				const command = new ChangePassphraseCommand(this);
+				await command.execute();
+			}
+		});
+
+		this.addCommand({
+			id: 'pglite-open-database-health',
+			name: 'Open database health',
+			callback: async () => {
+				await this.activateDatabaseHealthView();
+			}
+		});
+
 		// Vector-related commands
 		this.addCommand({
 			id: 'pglite-create-vector-table',
@@ -79,12 +202,78 @@ export default class PGLitePlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'pglite-rebuild-vector-index',
+			name: 'Rebuild vector index',
+			callback: async () => {
+				const command = new RebuildVectorIndexCommand(this);
+				await command.execute();
+			}
+		});
+
 		this.addCommand({
 			id: 'pglite-insert-note-as-vector',
 			name: 'Insert current note as vector',
 			editorCallback: async (editor: Editor, view: MarkdownView) => {
 				const command = new InsertNoteAsVectorCommand(this);
-				await command.execute(editor);
+				await command.execute(editor, view);
+			}
+		});
+
+		this.addCommand({
+			id: 'pglite-index-vault',
+			name: 'Index vault',
+			callback: async () => {
+				const command = new IndexVaultCommand(this);
+				await command.execute();
+			}
+		});
+
+		this.addCommand({
+			id: 'pglite-pause-vault-indexing',
+			name: 'Pause vault indexing',
+			callback: async () => {
+				const command = new PauseVaultIndexingCommand(this);
+				await command.execute();
+			}
+		});
+
+		this.addCommand({
+			id: 'pglite-cancel-vault-indexing',
+			name: 'Cancel vault indexing',
+			callback: async () => {
+				const command = new CancelVaultIndexingCommand(this);
+				await command.execute();
+			}
+		});
+
+		this.addCommand({
+			id: 'pglite-resume-reembedding',
+			name: 'Resume re-embedding',
+			callback: async () => {
+				if (!this.settings.pendingModel) {
+					new Notice('No model change is pending');
+					return;
+				}
+				await this.migration.resume();
+			}
+		});
+
+		this.addCommand({
+			id: 'pglite-cancel-reembedding',
+			name: 'Cancel re-embedding',
+			callback: async () => {
+				if (!this.settings.pendingModel) {
+					new Notice('No model change is pending');
+					return;
+				}
+				try {
+					await this.migration.cancel();
+					new Notice(`Re-embedding cancelled; staying with ${this.settings.selectedModel}`);
+				} catch (error) {
+					console.error('Error cancelling re-embedding:', error);
+					new Notice('Error cancelling re-embedding: ' + (error as Error).message);
+				}
 			}
 		});
 
@@ -106,32 +295,307 @@ export default class PGLitePlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'pglite-search-notes',
+			name: 'Search notes',
+			callback: async () => {
+				const command = new SearchNotesCommand(this);
+				await command.execute();
+			}
+		});
+
+		this.registerView(DATABASE_HEALTH_VIEW_TYPE, (leaf) => new DatabaseHealthView(leaf, this));
+
+		// Render ```pglite code blocks as live query results
+		this.registerMarkdownCodeBlockProcessor('pglite', (source, el, ctx) => {
+			ctx.addChild(new QueryBlockRenderer(el, this, source));
+		});
+
+		// Keep embeddings current as notes change. Vault events are registered once the
+		// layout is ready, as 'create' fires for every file while the vault loads
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(this.app.vault.on('create', (file) => this.autoIndexer.handleChange(file)));
+			this.registerEvent(this.app.vault.on('modify', (file) => this.autoIndexer.handleChange(file)));
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.autoIndexer.handleRename(file, oldPath)));
+			this.registerEvent(this.app.vault.on('delete', (file) => this.autoIndexer.handleDelete(file.path)));
+		});
+
+		// Take the daily backup even when Obsidian stays open for days
+		this.registerInterval(window.setInterval(async () => {
+			await this.provider?.backupIfDue();
+		}, 60 * 60 * 1000));
+
+		// Flush unsaved writes when the window loses focus and before the app quits
+		this.registerDomEvent(window, 'blur', async () => {
+			await this.provider?.flush();
+		});
+		this.registerEvent(this.app.workspace.on('quit', (tasks) => {
+			tasks.add(async () => {
+				await this.provider?.flush(true);
+			});
+		}));
+
 		// This adds a settings tab so the user can configure various aspects of the plugin
 		this.addSettingTab(new PGLiteSettingTab(this.app, this));
 	}
 
-	async initializePGlite() {
+	/**
+	 * Reveal the database health view, opening it in the right sidebar if needed
+	 */
+	async activateDatabaseHealthView() {
+		let leaf = this.app.workspace.getLeavesOfType(DATABASE_HEALTH_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = this.app.workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: DATABASE_HEALTH_VIEW_TYPE, active: true });
+		} else if (leaf.view instanceof DatabaseHealthView) {
+			await leaf.view.refresh();
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Remember the passphrase of a database for the rest of the session
+	 * @param databaseName Name of the database
+	 * @param passphrase Its passphrase, or null to forget it
+	 */
+	rememberPassphrase(databaseName: string, passphrase: string | null) {
+		if (passphrase) {
+			this.passphrases.set(databaseName, passphrase);
+		} else {
+			this.passphrases.delete(databaseName);
+		}
+	}
+
+	/**
+	 * Create and initialize the PGlite provider
+	 * @param recovery How to recover from a corrupt database, chosen in the recovery modal
+	 * @param access How to open a database locked by another device, chosen in the lock modal
+	 * @param passphrase Passphrase of an encrypted database, entered in the unlock modal
+	 */
+	async initializePGlite(recovery?: DatabaseRecovery, access?: DatabaseAccess, passphrase?: string) {
+		this.apiImpl.detach();
+		passphrase = passphrase ?? this.passphrases.get(this.settings.databaseName);
 		try {
 			this.provider = new PGliteProvider(
 				this, // Pass the plugin instance
-				this.settings.databaseName
+				this.settings.databaseName,
+				this.settings.relaxedDurability,
+				{
+					autosave: {
+						mode: this.settings.autosaveMode,
+						delayMs: this.settings.autosaveDelaySeconds * 1000
+					},
+					backups: {
+						daily: this.settings.dailyBackups,
+						retention: this.settings.backupRetention
+					},
+					useWorker: this.settings.useWorker
+				}
 			);
 			
-			await this.provider.initialize();
+			this.provider.on('read-only', (message: string) => {
+				// Keep this on screen: writes are refused until the database is reopened
+				new Notice(message, 0);
+				this.updateStatusBar();
+			});
+			
+			await this.provider.initialize(recovery, access, passphrase);
+			this.rememberPassphrase(this.settings.databaseName, this.provider.isEncrypted() ? passphrase ?? null : null);
+			this.apiImpl.attach(this.provider);
 			
 			// No need to initialize the vector store here - it will be created on demand
 			
 			console.log('PGlite and Embedding Model initialized successfully');
-			new Notice('PGlite database connected!');
+			new Notice(this.provider.isReadOnly() ? 'PGlite database opened read-only' : 'PGlite database connected!');
+			
+			// Pick up vault indexing and re-embedding where they stopped once the vault's metadata is available.
+			// A callback still waiting for the layout resumes the jobs of the database open by then.
+			if (!this.resumePending) {
+				this.resumePending = true;
+				this.app.workspace.onLayoutReady(async () => {
+					this.resumePending = false;
+					await new IndexVaultCommand(this).execute(true);
+					await this.migration.resume(true);
+				});
+			}
 		} catch (error) {
 			console.error('Failed to initialize PGlite:', error);
+			
+			if (error instanceof DataDirCorruptionError) {
+				// Let the user decide how to recover instead of leaving the plugin unusable
+				new DatabaseRecoveryModal(
+					this.app,
+					this.settings.databaseName,
+					error.message,
+					error.hasPreviousCopy,
+					async (choice) => {
+						if (choice) {
+							await this.initializePGlite(choice, access, passphrase);
+						}
+					}
+				).open();
+				return;
+			}
+			if (error instanceof DatabaseLockedError) {
+				new DatabaseLockedModal(
+					this.app,
+					this.settings.databaseName,
+					error.holder,
+					async (choice) => {
+						if (choice) {
+							await this.initializePGlite(recovery, choice, passphrase);
+						}
+					}
+				).open();
+				return;
+			}
+			if (error instanceof PassphraseRequiredError || error instanceof WrongPassphraseError) {
+				this.rememberPassphrase(this.settings.databaseName, null);
+				new PassphraseModal(
+					this.app,
+					this.settings.databaseName,
+					error instanceof WrongPassphraseError ? 'Wrong passphrase, try again.' : null,
+					async (entered) => {
+						if (entered) {
+							await this.initializePGlite(recovery, access, entered);
+						}
+					}
+				).open();
+				return;
+			}
+			if (error instanceof MigrationError) {
+				// Keep this on screen: the database stays closed until the migration is fixed
+				new Notice(
+					`${error.message}\n\nThe database was not opened and the saved copy is unchanged. ` +
+					'A backup was taken before migrating.',
+					0
+				);
+				return;
+			}
 			new Notice('Failed to initialize PGlite: ' + (error as Error).message);
+		} finally {
+			this.updateStatusBar();
 		}
 	}
 
+	/**
+	 * Show the active database and its connection state in the status bar
+	 */
+	updateStatusBar() {
+		let state = this.provider?.isReady() ? 'Connected' : 'Disconnected';
+		if (this.provider?.isReady() && this.provider.isReadOnly()) {
+			state = 'Read-only';
+		}
+		this.statusBarItemEl?.setText(`PGlite: ${this.settings.databaseName} (${state})`);
+	}
 
+	/**
+	 * Show the progress of vault indexing in the status bar
+	 * @param progress Progress reported by the indexer
+	 */
+	private updateIndexStatusBar(progress: IndexProgress) {
+		if (!this.indexStatusBarItemEl) return;
+		if (progress.status === null || progress.status === 'completed') {
+			this.indexStatusBarItemEl.hide();
+			return;
+		}
+		const count = `${progress.done + progress.failed}/${progress.total}`;
+		if (progress.tableName !== null && progress.tableName === this.migration.getTableName()) {
+			this.indexStatusBarItemEl.setText(progress.status === 'paused' ? `Re-embedding paused: ${count}` : `Re-embedding: ${count}`);
+		} else {
+			this.indexStatusBarItemEl.setText(progress.status === 'paused' ? `Indexing paused: ${count}` : `Indexing vault: ${count}`);
+		}
+		this.indexStatusBarItemEl.setAttr('aria-label', progress.status === 'paused' ? 'Click to resume' : 'Click to pause');
+		this.indexStatusBarItemEl.show();
+	}
+
+	/**
+	 * Close the active database and open another one
+	 * @param databaseName Name of the database to open
+	 */
+	async switchDatabase(databaseName: string) {
+		if (databaseName === this.settings.databaseName) return;
+		if (!this.settings.databases.includes(databaseName)) {
+			throw new Error(`Unknown database "${databaseName}"`);
+		}
+
+		this.settings.databaseName = databaseName;
+		await this.saveSettings(true);
+	}
+
+	/**
+	 * Add a new named database
+	 * The database files are created when it is first opened.
+	 * @param databaseName Name of the new database
+	 */
+	async createDatabase(databaseName: string) {
+		this.validateNewDatabaseName(databaseName);
+		this.settings.databases.push(databaseName);
+		await this.saveSettings(false);
+	}
+
+	/**
+	 * Rename a database and its files, reopening it if it is active
+	 * @param currentName Current database name
+	 * @param newName New database name
+	 */
+	async renameDatabase(currentName: string, newName: string) {
+		this.validateNewDatabaseName(newName);
+
+		const isActive = currentName === this.settings.databaseName;
+		if (isActive && this.provider) {
+			await this.provider.close();
+		}
+
+		try {
+			await renameDatabaseFiles(this.app.vault.adapter, this.manifest.dir ?? '', currentName, newName);
+			this.settings.databases = this.settings.databases.map(name => name === currentName ? newName : name);
+			this.rememberPassphrase(newName, this.passphrases.get(currentName) ?? null);
+			this.rememberPassphrase(currentName, null);
+			if (isActive) {
+				this.settings.databaseName = newName;
+			}
+			await this.saveSettings(false);
+		} finally {
+			if (isActive) {
+				await this.initializePGlite();
+			}
+		}
+	}
+
+	/**
+	 * Delete a database, its files and its backups
+	 * @param databaseName Name of the database to delete; it must not be active
+	 */
+	async deleteDatabase(databaseName: string) {
+		if (databaseName === this.settings.databaseName) {
+			throw new Error('Switch to another database before deleting this one');
+		}
+
+		await deleteDatabaseFiles(this.app.vault.adapter, this.manifest.dir ?? '', databaseName);
+		this.rememberPassphrase(databaseName, null);
+		this.settings.databases = this.settings.databases.filter(name => name !== databaseName);
+		await this.saveSettings(false);
+	}
+
+	/**
+	 * Check that a name can be used for a new database
+	 * @param databaseName The proposed name
+	 */
+	private validateNewDatabaseName(databaseName: string) {
+		if (!isValidDatabaseName(databaseName)) {
+			throw new Error('Database names may only contain letters, numbers, dashes and underscores');
+		}
+		if (this.settings.databases.includes(databaseName)) {
+			throw new Error(`A database named "${databaseName}" already exists`);
+		}
+	}
 
 	async onunload() {
+		this.autoIndexer.stop();
+
 		// Close the PGlite connections when the plugin is unloaded
 		if (this.provider) {
 			await this.provider.close();
@@ -141,6 +605,12 @@ export default class PGLitePlugin extends Plugin {
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+
+		// Settings from before named databases only know the active database
+		this.settings.databases = [...(this.settings.databases ?? [])];
+		if (!this.settings.databases.includes(this.settings.databaseName)) {
+			this.settings.databases.push(this.settings.databaseName);
+		}
 	}
 
 	/**
@@ -0,0 +1,222 @@
+import { EventRef, Events } from 'obsidian';
+import { Results, Transaction } from '@electric-sql/pglite';
+import type PGLitePlugin from '../../main';
+import { PGliteProvider } from '../storage/PGliteProvider';
+import { EmbeddingProvenanceError, IndexChange, VectorSearchFilter, VectorSearchOptions, VectorSearchResult } from '../storage/PGliteVectorStore';
+import { VectorTableCatalog } from '../storage/VectorTableCatalog';
+import { getModelInfo, getVectorStoreOptions } from '../settings/PGLitePluginSettings';
+import { FrontmatterPredicate, FrontmatterValue, NoteFilter } from '../search/NoteFilter';
+import { createModelInstance, getConfigForModel } from '../models/EmbeddingModel';
+
+export { EmbeddingProvenanceError };
+export type { FrontmatterPredicate, FrontmatterValue, IndexChange, NoteFilter, VectorSearchFilter, VectorSearchOptions, VectorSearchResult };
+
+/**
+ * Version of the public API
+ * Incremented whenever a member is changed or removed; adding members keeps the version.
+ */
+export const API_VERSION = 1;
+
+/**
+ * Public API of the plugin for other plugins and scripts
+ *
+ * Available as `app.plugins.plugins['obsidian-pg-lite'].api`. Check `version` before
+ * use and await `ready` before the first call:
+ *
+ * ```js
+ * const api = app.plugins.plugins['obsidian-pg-lite'].api;
+ * await api.ready;
+ * const table = await api.getVectorTableName();
+ * const { rows } = await api.query(`SELECT * FROM ${table} WHERE id = $1`, [1]);
+ * ```
+ *
+ * All calls go to the active database. Writes are saved by the plugin's autosave.
+ */
+export interface PGlitePluginApi {
+    readonly version: number;
+
+    /**
+     * Resolves once the active database is open
+     * After switching databases this is a new promise until the new database is open.
+     */
+    readonly ready: Promise<void>;
+
+    /**
+     * Check if the active database is open
+     */
+    isReady(): boolean;
+
+    /**
+     * Run a parameterized query
+     * @param sql SQL with $1, $2, ... placeholders
+     * @param params Values for the placeholders
+     */
+    query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<Results<T>>;
+
+    /**
+     * Run one or more statements without parameters
+     * @param sql SQL statements
+     */
+    exec(sql: string): Promise<Results[]>;
+
+    /**
+     * Run a callback in a transaction, rolled back if the callback throws
+     * @param callback Callback receiving the transaction
+     */
+    transaction<T>(callback: (tx: Transaction) => Promise<T>): Promise<T>;
+
+    /**
+     * Find stored content similar to a text, embedded with the configured model
+     * @param text Text to search for
+     * @param options Search options
+     */
+    searchSimilar(text: string, options?: VectorSearchOptions): Promise<VectorSearchResult[]>;
+
+    /**
+     * Find stored content similar to a vector
+     * Fails with an EmbeddingProvenanceError if the vector's dimensions or normalization
+     * differ from the embeddings recorded for the table.
+     * @param vector Query vector with the configured model's dimensions
+     * @param options Search options
+     */
+    searchByVector(vector: number[], options?: VectorSearchOptions): Promise<VectorSearchResult[]>;
+
+    /**
+     * Embed a text with the configured model
+     * @param text Text to embed
+     */
+    embed(text: string): Promise<number[]>;
+
+    /**
+     * Get the name of the vector table of the configured model, e.g. for queries
+     */
+    getVectorTableName(): Promise<string>;
+
+    /**
+     * Subscribe to changes of the vector index
+     * @param callback Called with each change
+     * @returns Function that unsubscribes
+     */
+    onIndexChange(callback: (change: IndexChange) => void): () => void;
+}
+
+/**
+ * Implementation of the public API on top of the plugin's active provider
+ */
+export class PGliteApi implements PGlitePluginApi {
+    readonly version = API_VERSION;
+    private events = new Events();
+    private provider: PGliteProvider | null = null;
+    private providerRef: EventRef | null = null;
+    private readyPromise: Promise<void>;
+    private resolveReady: () => void;
+    private isResolved: boolean = false;
+
+    /**
+     * Create a new PGliteApi
+     * @param plugin Plugin instance
+     */
+    constructor(private plugin: PGLitePlugin) {
+        this.resetReady();
+    }
+
+    get ready(): Promise<void> {
+        return this.readyPromise;
+    }
+
+    isReady(): boolean {
+        return this.provider?.isReady() ?? false;
+    }
+
+    /**
+     * Route calls to a newly opened provider and resolve `ready`
+     * @param provider The provider of the active database
+     */
+    attach(provider: PGliteProvider): void {
+        this.detach();
+        this.provider = provider;
+        this.providerRef = provider.on('index-change', (change: IndexChange) => {
+            this.events.trigger('index-change', change);
+        });
+        this.resolveReady();
+    }
+
+    /**
+     * Stop routing calls to the current provider, e.g. while switching databases
+     */
+    detach(): void {
+        if (this.provider && this.providerRef) {
+            this.provider.offref(this.providerRef);
+        }
+        this.provider = null;
+        this.providerRef = null;
+        if (this.isResolved) {
+            this.resetReady();
+        }
+    }
+
+    async query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<Results<T>> {
+        return this.getProvider().getClient().query<T>(sql, params);
+    }
+
+    async exec(sql: string): Promise<Results[]> {
+        return this.getProvider().getClient().exec(sql);
+    }
+
+    async transaction<T>(callback: (tx: Transaction) => Promise<T>): Promise<T> {
+        return this.getProvider().getClient().transaction(callback);
+    }
+
+    async searchSimilar(text: string, options: VectorSearchOptions = {}): Promise<VectorSearchResult[]> {
+        return this.searchByVector(await this.embed(text), options);
+    }
+
+    async searchByVector(vector: number[], options: VectorSearchOptions = {}): Promise<VectorSearchResult[]> {
+        const modelInfo = this.getModelInfo();
+        const store = await new VectorTableCatalog(this.getProvider()).openStore(
+            modelInfo,
+            getVectorStoreOptions(this.plugin.settings)
+        );
+        return store.searchSimilar(vector, options);
+    }
+
+    async getVectorTableName(): Promise<string> {
+        return new VectorTableCatalog(this.getProvider()).getTableName(this.getModelInfo());
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const modelInfo = this.getModelInfo();
+        const model = createModelInstance(modelInfo, getConfigForModel(this.plugin.settings, modelInfo));
+        return model.generateEmbedding(text);
+    }
+
+    onIndexChange(callback: (change: IndexChange) => void): () => void {
+        const ref = this.events.on('index-change', callback);
+        return () => this.events.offref(ref);
+    }
+
+    private resetReady(): void {
+        this.isResolved = false;
+        this.readyPromise = new Promise(resolve => {
+            this.resolveReady = () => {
+                this.isResolved = true;
+                resolve();
+            };
+        });
+    }
+
+    private getProvider(): PGliteProvider {
+        if (!this.provider || !this.provider.isReady()) {
+            throw new Error('PGlite database is not ready; await api.ready first');
+        }
+        return this.provider;
+    }
+
+    private getModelInfo() {
+        const modelInfo = getModelInfo(this.plugin.settings.selectedModel);
+        if (!modelInfo) {
+            throw new Error(`Model ${this.plugin.settings.selectedModel} not found in available models`);
+        }
+        return modelInfo;
+    }
+}
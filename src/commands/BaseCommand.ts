@@ -1,7 +1,8 @@
 import { Notice, Plugin } from 'obsidian';
 import PGLitePlugin from '../../main';
 import { PGliteVectorStore } from '../storage/PGliteVectorStore';
-import { getModelInfo } from '../settings/PGLitePluginSettings';
+import { VectorTableCatalog } from '../storage/VectorTableCatalog';
+import { getModelInfo, getVectorStoreOptions } from '../settings/PGLitePluginSettings';
 import { createModelInstance, getConfigForModel } from '../models/EmbeddingModel';
 
 export abstract class BaseCommand {
@@ -20,10 +21,10 @@ export abstract class BaseCommand {
     }
 
     /**
-     * Create a vector store instance
+     * Create a vector store for the vector table of the selected model
      * @returns A new vector store instance
      */
-    protected createVectorStore(): PGliteVectorStore {
+    protected async createVectorStore(): Promise<PGliteVectorStore> {
         if (!this.checkProviderReady()) {
             throw new Error('Provider is not ready');
         }
@@ -34,12 +35,8 @@ export abstract class BaseCommand {
             throw new Error(`Model ${this.plugin.settings.selectedModel} not found in available models`);
         }
         
-        // Create and return a new vector store
-        return new PGliteVectorStore(
-            this.plugin.provider,
-            modelInfo.dimensions,
-            'vector_test'            
-        );
+        // Each model has a table of its own
+        return new VectorTableCatalog(this.plugin.provider).openStore(modelInfo, getVectorStoreOptions(this.plugin.settings));
     }
 
     /**
@@ -1,7 +1,13 @@
-import { Editor, MarkdownView, Notice } from 'obsidian';
+import { Editor, MarkdownView, Notice, TFile, moment, normalizePath } from 'obsidian';
 import { BaseCommand } from './BaseCommand';
-import { createTable, insertTestData, queryAllData, insertNoteData } from '../utils/DatabaseHelpers';
+import { createTable, insertTestData, watchAllData, insertNoteData } from '../utils/DatabaseHelpers';
 import { ResultsModal } from '../ui/ResultsModal';
+import { BackupSuggestModal } from '../ui/BackupSuggestModal';
+import { DatabaseSuggestModal } from '../ui/DatabaseSuggestModal';
+import { SqlFileSuggestModal } from '../ui/SqlFileSuggestModal';
+import { SqlImportModal } from '../ui/SqlImportModal';
+import { TextInputModal } from '../ui/TextInputModal';
+import { ChangePassphraseModal } from '../ui/ChangePassphraseModal';
 
 export class CreateTableCommand extends BaseCommand {
     async execute(): Promise<void> {
@@ -9,8 +15,6 @@ export class CreateTableCommand extends BaseCommand {
 
         try {
             await createTable(this.plugin.provider);
-            // Save the database after creating the table
-            await this.plugin.provider.save();
             new Notice('Test table created successfully');
         } catch (error) {
             console.error('Error creating test table:', error);
@@ -25,8 +29,6 @@ export class InsertTestDataCommand extends BaseCommand {
 
         try {
             const id = await insertTestData(this.plugin.provider);
-            // Save the database after inserting data
-            await this.plugin.provider.save();
             new Notice(`Test data inserted with ID: ${id}`);
         } catch (error) {
             console.error('Error inserting test data:', error);
@@ -40,11 +42,11 @@ export class QueryTestDataCommand extends BaseCommand {
         if (!this.checkProviderReady()) return;
 
         try {
-            const rows = await queryAllData(this.plugin.provider);
-            console.log('Query results:', rows);
-            
-            // Display results in a modal
-            new ResultsModal(this.plugin.app, rows).open();
+            // Display results in a modal that follows changes to the table
+            const modal = new ResultsModal(this.plugin.app, []);
+            const subscription = await watchAllData(this.plugin.provider, (rows) => modal.setResults(rows));
+            modal.setSubscription(subscription);
+            modal.open();
         } catch (error) {
             console.error('Error querying test data:', error);
             new Notice('Error querying test data: ' + (error as Error).message);
@@ -61,8 +63,6 @@ export class InsertNoteDataCommand extends BaseCommand {
 
         try {
             const id = await insertNoteData(this.plugin.provider, noteTitle, noteContent);
-            // Save the database after inserting note data
-            await this.plugin.provider.save();
             new Notice(`Note inserted with ID: ${id}`);
         } catch (error) {
             console.error('Error inserting note data:', error);
@@ -70,3 +70,160 @@ export class InsertNoteDataCommand extends BaseCommand {
         }
     }
 }
+
+export class BackupDatabaseCommand extends BaseCommand {
+    async execute(): Promise<void> {
+        if (!this.checkProviderReady()) return;
+
+        try {
+            const backup = await this.plugin.provider.createBackup('manual');
+            new Notice(`Database backed up to ${backup.path}`);
+        } catch (error) {
+            console.error('Error backing up database:', error);
+            new Notice('Error backing up database: ' + (error as Error).message);
+        }
+    }
+}
+
+export class RestoreDatabaseCommand extends BaseCommand {
+    async execute(): Promise<void> {
+        if (!this.checkProviderReady()) return;
+
+        try {
+            const backups = await this.plugin.provider.listBackups();
+            if (backups.length === 0) {
+                new Notice('No database backups found');
+                return;
+            }
+
+            new BackupSuggestModal(this.plugin.app, backups, async (backup) => {
+                if (!this.checkProviderReady()) return;
+
+                const notice = new Notice('Restoring database...', 0);
+                try {
+                    await this.plugin.provider.restoreFromBackup(backup.path);
+                    notice.hide();
+                    new Notice(`Database restored from backup of ${backup.createdAt.toLocaleString()}`);
+                } catch (error) {
+                    notice.hide();
+                    console.error('Error restoring database:', error);
+                    new Notice('Error restoring database: ' + (error as Error).message);
+                }
+            }).open();
+        } catch (error) {
+            console.error('Error listing database backups:', error);
+            new Notice('Error listing database backups: ' + (error as Error).message);
+        }
+    }
+}
+
+export class SwitchDatabaseCommand extends BaseCommand {
+    async execute(): Promise<void> {
+        const settings = this.plugin.settings;
+
+        new DatabaseSuggestModal(this.plugin.app, settings.databases, settings.databaseName, async (databaseName) => {
+            try {
+                await this.plugin.switchDatabase(databaseName);
+            } catch (error) {
+                console.error('Error switching database:', error);
+                new Notice('Error switching database: ' + (error as Error).message);
+            }
+        }).open();
+    }
+}
+
+export class ExportSqlCommand extends BaseCommand {
+    async execute(): Promise<void> {
+        if (!this.checkProviderReady()) return;
+
+        try {
+            const vault = this.plugin.app.vault;
+            const folder = normalizePath(this.plugin.settings.sqlExportFolder || '/');
+            if (folder !== '/' && !vault.getAbstractFileByPath(folder)) {
+                await vault.createFolder(folder);
+            }
+
+            const sql = await this.plugin.provider.exportSql();
+            const fileName = `${this.plugin.settings.databaseName}-${moment().format('YYYYMMDD-HHmmss')}.sql`;
+            const file = await vault.create(normalizePath(`${folder}/${fileName}`), sql);
+            new Notice(`Database exported to ${file.path}`);
+        } catch (error) {
+            console.error('Error exporting database as SQL:', error);
+            new Notice('Error exporting database as SQL: ' + (error as Error).message);
+        }
+    }
+}
+
+export class ImportSqlCommand extends BaseCommand {
+    async execute(): Promise<void> {
+        if (!this.checkProviderReady()) return;
+
+        new SqlFileSuggestModal(this.plugin.app, (file) => {
+            new SqlImportModal(this.plugin.app, file.name, this.plugin.settings.databaseName, (target) => {
+                if (target === 'current') {
+                    this.importInto(file);
+                    return;
+                }
+                new TextInputModal(this.plugin.app, 'Import into new database', file.basename, 'Create', async (databaseName) => {
+                    if (!databaseName) return;
+                    try {
+                        await this.plugin.createDatabase(databaseName);
+                        await this.plugin.switchDatabase(databaseName);
+                    } catch (error) {
+                        console.error('Error creating database for import:', error);
+                        new Notice('Error creating database for import: ' + (error as Error).message);
+                        return;
+                    }
+                    await this.importInto(file);
+                }).open();
+            }).open();
+        }).open();
+    }
+
+    /**
+     * Replay an SQL file into the active database
+     * @param file The SQL file to import
+     */
+    private async importInto(file: TFile): Promise<void> {
+        if (!this.checkProviderReady()) return;
+
+        const notice = new Notice('Importing SQL file...', 0);
+        try {
+            const sql = await this.plugin.app.vault.read(file);
+            await this.plugin.provider.importSql(sql);
+            notice.hide();
+            new Notice(`Imported ${file.path} into database "${this.plugin.settings.databaseName}"`);
+        } catch (error) {
+            notice.hide();
+            console.error('Error importing SQL file:', error);
+            new Notice('Error importing SQL file: ' + (error as Error).message);
+        }
+    }
+}
+
+export class ChangePassphraseCommand extends BaseCommand {
+    async execute(): Promise<void> {
+        if (!this.checkProviderReady()) return;
+
+        new ChangePassphraseModal(this.plugin.app, this.plugin.provider.isEncrypted(), async (currentPassphrase, newPassphrase) => {
+            if (!this.checkProviderReady()) return;
+
+            const notice = new Notice('Updating database encryption...', 0);
+            try {
+                const wasEncrypted = this.plugin.provider.isEncrypted();
+                await this.plugin.provider.changePassphrase(currentPassphrase, newPassphrase);
+                this.plugin.rememberPassphrase(this.plugin.provider.getDatabaseName(), newPassphrase);
+                notice.hide();
+                if (!newPassphrase) {
+                    new Notice('Database encryption removed');
+                } else {
+                    new Notice(wasEncrypted ? 'Database passphrase changed' : 'Database encrypted');
+                }
+            } catch (error) {
+                notice.hide();
+                console.error('Error changing database passphrase:', error);
+                new Notice('Error changing database passphrase: ' + (error as Error).message);
+            }
+        }).open();
+    }
+}
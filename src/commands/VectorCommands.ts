@@ -2,19 +2,22 @@ import { Editor, MarkdownView, Modal, Notice } from 'obsidian';
 import { BaseCommand } from './BaseCommand';
 import { ResultsModal } from '../ui/ResultsModal';
 import { ModelChangeConfirmationModal } from '../ui/ModelChangeConfirmationModal';
-import { checkTableCompatibility, insertContentAsVector, recreateVectorTable, searchSimilarContent, getModelName } from '../utils/VectorHelpers';
+import { checkTableCompatibility, upsertNoteAsVector, recreateVectorTable, watchSimilarContent, getModelName } from '../utils/VectorHelpers';
+import { getNoteRecord } from '../utils/NoteHelpers';
+import { getChunkOptions } from '../settings/PGLitePluginSettings';
+import { formatBytes } from '../utils/FormatHelpers';
+import { TextInputModal } from '../ui/TextInputModal';
+import { NoteFilter, describeNoteFilter, parseNoteFilterQuery } from '../search/NoteFilter';
 
 export class CreateVectorTableCommand extends BaseCommand {
     async execute(): Promise<void> {
         try {
             // Create the vector store
-            const vectorStore = this.createVectorStore();
+            const vectorStore = await this.createVectorStore();
             
             // Create the vector table
             await vectorStore.createTable(true); // Force recreate
             
-            // Save the database
-            await vectorStore.save();
             new Notice('Vector table created successfully');
         } catch (error) {
             console.error('Error creating vector table:', error);
@@ -24,7 +27,12 @@ export class CreateVectorTableCommand extends BaseCommand {
 }
 
 export class InsertNoteAsVectorCommand extends BaseCommand {
-    async execute(editor: Editor): Promise<void> {
+    async execute(editor: Editor, view: MarkdownView): Promise<void> {
+        const file = view.file;
+        if (!file) {
+            new Notice('The current note has no file');
+            return;
+        }
         const content = editor.getValue();
         try {
             // Show a notice that we're generating the embedding
@@ -32,7 +40,7 @@ export class InsertNoteAsVectorCommand extends BaseCommand {
             
             // Create the embedding model and vector store
             const embeddingModel = this.createEmbeddingModel();
-            const vectorStore = this.createVectorStore();
+            const vectorStore = await this.createVectorStore();
             
             // Check if the table is compatible with the current model
             const compatibility = await checkTableCompatibility(embeddingModel, vectorStore);
@@ -50,7 +58,7 @@ export class InsertNoteAsVectorCommand extends BaseCommand {
                             await recreateVectorTable(vectorStore);
                             
                             // Try inserting again
-                            await this.execute(editor);
+                            await this.execute(editor, view);
                         }
                     }
                 );
@@ -59,13 +67,18 @@ export class InsertNoteAsVectorCommand extends BaseCommand {
                 return;
             }
             
-            // Insert content using the helper function
-            const id = await insertContentAsVector(embeddingModel, vectorStore, content);
+            // Store the note, replacing an earlier version of it
+            const note = await getNoteRecord(this.plugin.app, file, content);
+            const result = await upsertNoteAsVector(embeddingModel, vectorStore, note, getChunkOptions(this.plugin.settings));
             
             // Close the notice
             notice.hide();
             
-            new Notice(`Note vector inserted with ID: ${id}`);
+            if (result.skipped) {
+                new Notice('Note is unchanged since it was last stored');
+            } else {
+                new Notice(`Note stored as ${result.ids.length} chunks`);
+            }
         } catch (error) {
             console.error('Error inserting note vector:', error);
             new Notice('Error inserting note vector: ' + (error as Error).message);
@@ -74,14 +87,20 @@ export class InsertNoteAsVectorCommand extends BaseCommand {
 }
 
 export class SearchSimilarToNoteCommand extends BaseCommand {
-    async execute(editor: Editor, limit?: number): Promise<void> {
+    /**
+     * Find content similar to the current note
+     * @param editor Editor of the note
+     * @param limit Maximum number of results
+     * @param filter Conditions on the notes to return
+     */
+    async execute(editor: Editor, limit?: number, filter?: NoteFilter): Promise<void> {
         const content = editor.getValue();
         try {
             // Show a notice that we're searching
             const notice = new Notice('Searching for similar content...', 0);
             
             // Create the vector store
-            const vectorStore = this.createVectorStore();
+            const vectorStore = await this.createVectorStore();
             
             // Check if the table exists and is compatible
             const tableInfo = await vectorStore.checkTableExists();
@@ -92,14 +111,23 @@ export class SearchSimilarToNoteCommand extends BaseCommand {
             }
             
             // Create the embedding model and search for similar content
+            // Results are kept up to date while the modal is open
             const embeddingModel = this.createEmbeddingModel();
-            const results = await searchSimilarContent(embeddingModel, vectorStore, content, limit);
+            const resultsModal = new ResultsModal(this.plugin.app, [], true);
+            const subscription = await watchSimilarContent(
+                embeddingModel,
+                vectorStore,
+                content,
+                { limit, filter, minScore: this.plugin.settings.minSimilarityScore },
+                (results) => resultsModal.setResults(results)
+            );
+            resultsModal.setSubscription(subscription);
+            resultsModal.setFilterLabels(filter ? describeNoteFilter(filter) : []);
             
             // Close the notice
             notice.hide();
             
             // Display results in a modal
-            const resultsModal = new ResultsModal(this.plugin.app, results, true);
             resultsModal.open();
         } catch (error) {
             console.error('Error searching similar vectors:', error);
@@ -128,6 +156,14 @@ export class SearchSimilarWithCustomLimitCommand extends BaseCommand {
         inputEl.style.width = '100%';
         inputEl.style.marginBottom = '10px';
         
+        // Optional filters in the search syntax, e.g. path:Projects #meeting [status:active]
+        const filterEl = modal.contentEl.createEl('input', {
+            type: 'text',
+            attr: { placeholder: 'Filter, e.g. path:Projects #meeting [status:active]' }
+        });
+        filterEl.style.width = '100%';
+        filterEl.style.marginBottom = '10px';
+        
         const buttonContainer = modal.contentEl.createDiv();
         buttonContainer.style.display = 'flex';
         buttonContainer.style.justifyContent = 'flex-end';
@@ -139,13 +175,215 @@ export class SearchSimilarWithCustomLimitCommand extends BaseCommand {
                 new Notice('Please enter a valid number');
                 return;
             }
+            const { filter, text } = parseNoteFilterQuery(filterEl.value);
+            if (text) {
+                new Notice(`Unknown filter: ${text}`);
+                return;
+            }
             modal.close();
             
             // Use the SearchSimilarToNoteCommand to perform the search
             const searchCommand = new SearchSimilarToNoteCommand(this.plugin);
-            await searchCommand.execute(editor, limit);
+            await searchCommand.execute(editor, limit, filter);
         });
         
         modal.open();
     }
 }
+
+export class SearchNotesCommand extends BaseCommand {
+    /**
+     * Ask for a query and find notes by both its keywords and its meaning
+     * The query can contain filters, e.g. path:Projects #meeting [status:active].
+     */
+    async execute(): Promise<void> {
+        new TextInputModal(this.plugin.app, 'Search notes', '', 'Search', async (query) => {
+            const { filter, text } = parseNoteFilterQuery(query);
+            if (!text) {
+                if (query) new Notice('Enter some text to search for besides the filters');
+                return;
+            }
+            await this.search(text, filter);
+        }).open();
+    }
+    
+    /**
+     * Search and show the results
+     * @param query Text to search for
+     * @param filter Conditions on the notes to return
+     */
+    private async search(query: string, filter: NoteFilter): Promise<void> {
+        try {
+            const notice = new Notice('Searching notes...', 0);
+            
+            const vectorStore = await this.createVectorStore();
+            if (!(await vectorStore.checkTableExists()).exists) {
+                notice.hide();
+                new Notice('Vector table does not exist. Please create it first.');
+                return;
+            }
+            
+            // Exact terms like names and error messages are found by full-text search,
+            // related content by its embedding
+            const embeddingModel = this.createEmbeddingModel();
+            const resultsModal = new ResultsModal(this.plugin.app, [], true);
+            const subscription = await watchSimilarContent(
+                embeddingModel,
+                vectorStore,
+                query,
+                {
+                    limit: 10,
+                    filter,
+                    minScore: this.plugin.settings.minSimilarityScore,
+                    keywords: query,
+                    keywordWeight: this.plugin.settings.keywordWeight
+                },
+                (results) => resultsModal.setResults(results)
+            );
+            resultsModal.setSubscription(subscription);
+            resultsModal.setFilterLabels(describeNoteFilter(filter));
+            
+            notice.hide();
+            resultsModal.open();
+        } catch (error) {
+            console.error('Error searching notes:', error);
+            new Notice('Error searching notes: ' + (error as Error).message);
+        }
+    }
+}
+
+export class IndexVaultCommand extends BaseCommand {
+    /**
+     * Index all notes of the vault, resuming a paused or interrupted job
+     * @param resumeOnly Only resume a job that was interrupted, e.g. by restarting Obsidian
+     */
+    async execute(resumeOnly: boolean = false): Promise<void> {
+        const indexer = this.plugin.indexer;
+        if (resumeOnly) {
+            // A job of the database that was just closed stops on its own
+            await indexer.waitUntilStopped();
+        }
+        if (indexer.isRunning()) {
+            new Notice('Vault indexing is already running');
+            return;
+        }
+        if (resumeOnly ? !this.plugin.provider?.isReady() : !this.checkProviderReady()) return;
+        const provider = this.plugin.provider!;
+        
+        try {
+            // Create the embedding model and vector store
+            const embeddingModel = this.createEmbeddingModel();
+            const vectorStore = await this.createVectorStore();
+            
+            const existingJob = await indexer.loadJob(provider, vectorStore.getTableName());
+            if (resumeOnly && existingJob?.status !== 'running') return;
+            if (provider.isReadOnly()) {
+                new Notice('Cannot index the vault while the database is open read-only');
+                return;
+            }
+            
+            // Check if the table is compatible with the current model
+            const compatibility = await checkTableCompatibility(embeddingModel, vectorStore);
+            
+            if (!compatibility.compatible) {
+                // Ask user for confirmation to recreate the table
+                const confirmModal = new ModelChangeConfirmationModal(
+                    this.plugin.app,
+                    getModelName(embeddingModel),
+                    compatibility.modelDimensions,
+                    compatibility.tableDimensions || 0,
+                    async (confirmed) => {
+                        if (confirmed) {
+                            // Recreate the vector table
+                            await recreateVectorTable(vectorStore);
+                            
+                            // Try indexing again
+                            await this.execute(resumeOnly);
+                        }
+                    }
+                );
+                confirmModal.open();
+                return;
+            }
+            await vectorStore.createTable();
+            
+            new Notice(existingJob && existingJob.status !== 'completed' ? 'Resuming vault indexing...' : 'Indexing vault...');
+            const job = await indexer.run(provider, embeddingModel, vectorStore, getChunkOptions(this.plugin.settings));
+            
+            if (!job) {
+                new Notice('Vault indexing cancelled');
+            } else if (job.status === 'completed') {
+                const failed = job.failed > 0 ? `, ${job.failed} failed (see the developer console)` : '';
+                new Notice(`Vault indexed: ${job.done} notes${failed}`);
+            } else if (job.status === 'paused') {
+                // Keep this on screen when the embedding model is unavailable
+                new Notice(
+                    `Vault indexing paused at ${job.done + job.failed} of ${job.total} notes` +
+                    (job.lastError ? `: ${job.lastError}` : '') +
+                    '\n\nRun "Index vault" to resume.',
+                    job.lastError ? 0 : undefined
+                );
+            }
+        } catch (error) {
+            console.error('Error indexing vault:', error);
+            new Notice('Error indexing vault: ' + (error as Error).message);
+        }
+    }
+}
+
+export class PauseVaultIndexingCommand extends BaseCommand {
+    async execute(): Promise<void> {
+        if (this.plugin.indexer.pause()) {
+            new Notice('Pausing vault indexing...');
+        } else {
+            new Notice('Vault indexing is not running');
+        }
+    }
+}
+
+export class CancelVaultIndexingCommand extends BaseCommand {
+    async execute(): Promise<void> {
+        if (!this.checkProviderReady()) return;
+        
+        try {
+            // Notes indexed so far are kept; only the progress is discarded
+            const wasRunning = this.plugin.indexer.isRunning();
+            const vectorStore = await this.createVectorStore();
+            await this.plugin.indexer.cancel(this.plugin.provider, vectorStore.getTableName());
+            new Notice(wasRunning ? 'Cancelling vault indexing...' : 'Vault indexing cancelled');
+        } catch (error) {
+            console.error('Error cancelling vault indexing:', error);
+            new Notice('Error cancelling vault indexing: ' + (error as Error).message);
+        }
+    }
+}
+
+export class RebuildVectorIndexCommand extends BaseCommand {
+    async execute(): Promise<void> {
+        try {
+            // Create the vector store
+            const vectorStore = await this.createVectorStore();
+            
+            // Check if the table exists
+            const tableInfo = await vectorStore.checkTableExists();
+            if (!tableInfo.exists) {
+                new Notice('Vector table does not exist. Please create it first.');
+                return;
+            }
+            
+            // Building an index over many vectors takes a while
+            const notice = new Notice('Rebuilding vector index...', 0);
+            const index = await vectorStore.rebuildIndex();
+            notice.hide();
+            
+            if (index) {
+                new Notice(`Vector index rebuilt: ${index.method}, ${formatBytes(index.size)}`);
+            } else {
+                new Notice('Vector index removed; searches scan the whole table');
+            }
+        } catch (error) {
+            console.error('Error rebuilding vector index:', error);
+            new Notice('Error rebuilding vector index: ' + (error as Error).message);
+        }
+    }
+}
@@ -0,0 +1,284 @@
+import { Events, TAbstractFile, TFile } from 'obsidian';
+import type PGLitePlugin from '../../main';
+import { EmbeddingProvenanceError, PGliteVectorStore } from '../storage/PGliteVectorStore';
+import { VectorTableCatalog } from '../storage/VectorTableCatalog';
+import { getChunkOptions, getModelInfo, getVectorStoreOptions } from '../settings/PGLitePluginSettings';
+import { EmbeddingModel, createModelInstance, getConfigForModel } from '../models/EmbeddingModel';
+import { getNoteRecord } from '../utils/NoteHelpers';
+import { checkTableCompatibility, upsertNoteAsVector } from '../utils/VectorHelpers';
+
+// Wait before retrying a note, e.g. while the database is closed or the model is unavailable
+const RETRY_DELAY_MS = 60 * 1000;
+
+// Attempts to embed a note before it is dropped from the queue
+const MAX_ATTEMPTS = 3;
+
+/**
+ * A note waiting to be embedded
+ */
+interface QueuedNote {
+    // Time in milliseconds at which the note is due
+    due: number;
+    attempts: number;
+}
+
+/**
+ * Keeps the embeddings of notes current as the vault changes
+ * Created and modified notes are queued and embedded once they have not changed
+ * for the configured delay, at most the configured number per minute. Renamed
+ * notes keep their embeddings under the new path, and deleted notes lose them.
+ * While the notes are re-embedded with another model, both models' tables are kept current.
+ * Emits 'queue-change' with the queue length.
+ */
+export class IncrementalIndexer extends Events {
+    private queue: Map<string, QueuedNote> = new Map();
+    private timer: number | null = null;
+    private isProcessing: boolean = false;
+    private lastStartedAt: number = 0;
+    private warnedIncompatible: boolean = false;
+
+    /**
+     * Create a new IncrementalIndexer
+     * @param plugin Plugin instance
+     */
+    constructor(private plugin: PGLitePlugin) {
+        super();
+    }
+
+    /**
+     * Get the number of notes waiting to be embedded
+     */
+    getQueueLength(): number {
+        return this.queue.size;
+    }
+
+    /**
+     * Queue a created or modified note, restarting its delay
+     * @param file The changed file
+     */
+    handleChange(file: TAbstractFile): void {
+        if (!this.isEnabled() || !isNote(file)) return;
+
+        this.queue.set(file.path, { due: Date.now() + this.plugin.settings.autoIndexDelaySeconds * 1000, attempts: 0 });
+        this.trigger('queue-change', this.queue.size);
+        this.schedule();
+    }
+
+    /**
+     * Move the embeddings of a renamed note
+     * @param file The file at its new path
+     * @param oldPath Its previous path
+     */
+    async handleRename(file: TAbstractFile, oldPath: string): Promise<void> {
+        if (!this.isEnabled() || !(file instanceof TFile)) return;
+
+        const queued = this.queue.get(oldPath);
+        this.queue.delete(oldPath);
+        if (!isNote(file)) {
+            // Renamed to another extension, so it is no longer a note
+            await this.handleDelete(oldPath);
+            return;
+        }
+        if (queued) {
+            this.queue.set(file.path, queued);
+        }
+
+        await this.withStore('moving', oldPath, async (store) => {
+            const moved = await store.renameNote(oldPath, file.path, file.basename);
+            if (moved.length === 0 && !queued) {
+                // A file renamed to .md was not a note before
+                this.handleChange(file);
+            }
+        });
+        this.trigger('queue-change', this.queue.size);
+    }
+
+    /**
+     * Delete the embeddings of a deleted note
+     * @param path Path of the deleted file
+     */
+    async handleDelete(path: string): Promise<void> {
+        if (!this.isEnabled() || !path.endsWith('.md')) return;
+
+        if (this.queue.delete(path)) {
+            this.trigger('queue-change', this.queue.size);
+        }
+        await this.withStore('deleting', path, async (store) => {
+            await store.deleteNote(path);
+        });
+    }
+
+    /**
+     * Empty the queue, e.g. when automatic indexing is turned off
+     */
+    clear(): void {
+        this.queue.clear();
+        this.stop();
+        this.trigger('queue-change', 0);
+    }
+
+    /**
+     * Stop the timer without emptying the queue
+     */
+    stop(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private isEnabled(): boolean {
+        return this.plugin.settings.autoIndex;
+    }
+
+    /**
+     * Set the timer for the next note, keeping to the rate limit
+     */
+    private schedule(): void {
+        this.stop();
+        if (this.queue.size === 0 || this.isProcessing) return;
+
+        const nextDue = Math.min(...Array.from(this.queue.values(), note => note.due));
+        const interval = 60 * 1000 / Math.max(this.plugin.settings.autoIndexMaxPerMinute, 1);
+        const startAt = Math.max(nextDue, this.lastStartedAt + interval);
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            this.processNext();
+        }, Math.max(startAt - Date.now(), 0));
+    }
+
+    /**
+     * Embed the note that has been due the longest
+     */
+    private async processNext(): Promise<void> {
+        const now = Date.now();
+        const next = Array.from(this.queue.entries())
+            .filter(([, note]) => note.due <= now)
+            .sort(([, a], [, b]) => a.due - b.due)[0];
+        if (!next) {
+            this.schedule();
+            return;
+        }
+        const [path, queued] = next;
+
+        const provider = this.plugin.provider;
+        if (!provider?.isReady() || provider.isReadOnly() || this.plugin.indexer.isRunning()) {
+            // Try again later, without counting an attempt
+            queued.due = now + RETRY_DELAY_MS;
+            this.schedule();
+            return;
+        }
+
+        this.isProcessing = true;
+        this.lastStartedAt = now;
+        try {
+            const file = this.plugin.app.vault.getAbstractFileByPath(path);
+            if (isNote(file)) {
+                const note = await getNoteRecord(this.plugin.app, file);
+                for (const { model, store } of await this.createModelsAndStores()) {
+                    if (await this.ensureTable(store, model)) {
+                        await upsertNoteAsVector(model, store, note, getChunkOptions(this.plugin.settings));
+                    }
+                }
+            }
+            this.dequeue(path, queued);
+        } catch (error) {
+            console.error(`Error indexing ${path}:`, error);
+            queued.attempts++;
+            // Retrying cannot help when the embeddings do not fit the table
+            if (queued.attempts >= MAX_ATTEMPTS || error instanceof EmbeddingProvenanceError) {
+                console.error(`Gave up indexing ${path} after ${queued.attempts} attempts`);
+                this.dequeue(path, queued);
+            } else {
+                queued.due = Date.now() + RETRY_DELAY_MS;
+            }
+        } finally {
+            this.isProcessing = false;
+        }
+        this.schedule();
+    }
+
+    /**
+     * Remove a note from the queue unless it changed again while it was embedded
+     * @param path Path of the note
+     * @param queued The queue entry that was processed
+     */
+    private dequeue(path: string, queued: QueuedNote) {
+        if (this.queue.get(path) === queued) {
+            this.queue.delete(path);
+            this.trigger('queue-change', this.queue.size);
+        }
+    }
+
+    /**
+     * Create the vector table if needed and check that it fits the model
+     * @param store The vector store
+     * @param model The embedding model
+     * @returns False if the table has other dimensions than the model
+     */
+    private async ensureTable(store: PGliteVectorStore, model: EmbeddingModel): Promise<boolean> {
+        const compatibility = await checkTableCompatibility(model, store);
+        if (!compatibility.compatible) {
+            if (!this.warnedIncompatible) {
+                this.warnedIncompatible = true;
+                console.warn(
+                    `Automatic indexing skipped: the vector table has ${compatibility.tableDimensions} dimensions ` +
+                    `but ${model.name} uses ${compatibility.modelDimensions}`
+                );
+            }
+            return false;
+        }
+        this.warnedIncompatible = false;
+        await store.createTable();
+        return true;
+    }
+
+    /**
+     * Run an operation on the vector store if the database is writable
+     * @param action What the operation does, for error messages
+     * @param path Path of the note
+     * @param operation The operation
+     */
+    private async withStore(action: string, path: string, operation: (store: PGliteVectorStore) => Promise<void>): Promise<void> {
+        const provider = this.plugin.provider;
+        if (!provider?.isReady() || provider.isReadOnly()) return;
+
+        try {
+            for (const { store } of await this.createModelsAndStores()) {
+                if (!(await store.checkTableExists()).exists) continue;
+                await operation(store);
+            }
+        } catch (error) {
+            console.error(`Error ${action} embeddings of ${path}:`, error);
+        }
+    }
+
+    /**
+     * Create the embedding models and vector stores to keep current
+     * These are the selected model and, while notes are re-embedded, the pending one.
+     */
+    private async createModelsAndStores() {
+        const settings = this.plugin.settings;
+        const modelNames = settings.pendingModel ? [settings.selectedModel, settings.pendingModel] : [settings.selectedModel];
+        const catalog = new VectorTableCatalog(this.plugin.provider!);
+        const targets: { model: EmbeddingModel, store: PGliteVectorStore }[] = [];
+        for (const name of modelNames) {
+            const modelInfo = getModelInfo(name);
+            if (!modelInfo) {
+                throw new Error(`Model ${name} not found in available models`);
+            }
+            const model = createModelInstance(modelInfo, getConfigForModel(settings, modelInfo));
+            const store = await catalog.openStore(modelInfo, getVectorStoreOptions(settings));
+            targets.push({ model, store });
+        }
+        return targets;
+    }
+}
+
+/**
+ * Check if a file is a Markdown note
+ * @param file The file
+ */
+function isNote(file: TAbstractFile | null): file is TFile {
+    return file instanceof TFile && file.extension === 'md';
+}
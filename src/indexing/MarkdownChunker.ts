@@ -0,0 +1,258 @@
+/**
+ * Options for splitting notes into chunks
+ */
+export interface ChunkOptions {
+    // Target chunk size in estimated tokens
+    maxTokens: number;
+    // Tokens repeated at the start of the next window when a block is split
+    overlapTokens: number;
+    // Leave the YAML frontmatter out of the chunks
+    stripFrontmatter: boolean;
+    // Leave fenced code blocks out of the chunks
+    stripCodeBlocks: boolean;
+}
+
+/**
+ * Default chunk options
+ */
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+    maxTokens: 512,
+    overlapTokens: 64,
+    stripFrontmatter: true,
+    stripCodeBlocks: false
+};
+
+/**
+ * A part of a note that is embedded on its own
+ */
+export interface NoteChunk {
+    // Position of the chunk in the note, starting at 0
+    index: number;
+    // Headings the chunk is under, outermost first
+    headingPath: string[];
+    // First and last line of the chunk in the note, starting at 1
+    startLine: number;
+    endLine: number;
+    content: string;
+}
+
+/**
+ * A heading, paragraph or code block of a note
+ */
+interface Block {
+    text: string;
+    startLine: number;
+    endLine: number;
+    headingPath: string[];
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Estimate the number of tokens in a text
+ * Embedding models use about four characters per token for English text; the
+ * estimate only has to keep chunks well inside the model's context.
+ * @param text The text
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split a Markdown note into chunks for embedding
+ *
+ * Chunks never cross a heading: each section is split into paragraphs and code
+ * blocks, and consecutive blocks are merged while they fit into maxTokens. A block
+ * that does not fit on its own is split into windows of words, each repeating the
+ * last overlapTokens of the previous window.
+ * @param markdown Content of the note
+ * @param options Chunk options
+ * @returns Chunks in note order
+ */
+export function chunkMarkdown(markdown: string, options: ChunkOptions = DEFAULT_CHUNK_OPTIONS): NoteChunk[] {
+    const chunks: NoteChunk[] = [];
+    let current: Block[] = [];
+
+    const flush = () => {
+        if (current.length === 0) return;
+        chunks.push({
+            index: chunks.length,
+            headingPath: current[0].headingPath,
+            startLine: current[0].startLine,
+            endLine: current[current.length - 1].endLine,
+            content: current.map(block => block.text).join('\n\n')
+        });
+        current = [];
+    };
+
+    for (const block of parseBlocks(markdown, options)) {
+        if (current.length > 0 && current[0].headingPath !== block.headingPath) {
+            flush();
+        }
+
+        if (estimateTokens(block.text) <= options.maxTokens) {
+            const merged = current.map(b => b.text).concat(block.text).join('\n\n');
+            if (estimateTokens(merged) > options.maxTokens) {
+                flush();
+            }
+            current.push(block);
+            continue;
+        }
+
+        // Split the block together with what precedes it in the section, so a
+        // heading is not left as a chunk of its own
+        const blocks = [...current, block];
+        current = [];
+        for (const window of splitIntoWindows(blocks, options)) {
+            current.push(window);
+            flush();
+        }
+    }
+    flush();
+
+    return chunks;
+}
+
+/**
+ * Split a note into headings, paragraphs and code blocks
+ * @param markdown Content of the note
+ * @param options Chunk options
+ */
+function parseBlocks(markdown: string, options: ChunkOptions): Block[] {
+    const lines = markdown.split(/\r?\n/);
+    const blocks: Block[] = [];
+    // Blocks of a section share the array, so chunkMarkdown can compare sections by identity
+    let headingPath: string[] = [];
+    const headingLevels: number[] = [];
+    let paragraph: { lines: string[], start: number } | null = null;
+    let fence: { marker: string, lines: string[], start: number } | null = null;
+
+    const endParagraph = (end: number) => {
+        if (paragraph && paragraph.lines.some(line => line.trim() !== '')) {
+            blocks.push({ text: paragraph.lines.join('\n').trim(), startLine: paragraph.start, endLine: end, headingPath });
+        }
+        paragraph = null;
+    };
+
+    let i = skipFrontmatter(lines, options);
+    for (; i < lines.length; i++) {
+        const line = lines[i];
+        const lineNumber = i + 1;
+
+        if (fence) {
+            fence.lines.push(line);
+            if (line.trim().startsWith(fence.marker)) {
+                if (!options.stripCodeBlocks) {
+                    blocks.push({ text: fence.lines.join('\n'), startLine: fence.start, endLine: lineNumber, headingPath });
+                }
+                fence = null;
+            }
+            continue;
+        }
+
+        const fenceMatch = line.match(FENCE);
+        if (fenceMatch) {
+            endParagraph(lineNumber - 1);
+            fence = { marker: fenceMatch[1], lines: [line], start: lineNumber };
+            continue;
+        }
+
+        const headingMatch = line.match(HEADING);
+        if (headingMatch) {
+            endParagraph(lineNumber - 1);
+            const level = headingMatch[1].length;
+            while (headingLevels.length > 0 && headingLevels[headingLevels.length - 1] >= level) {
+                headingLevels.pop();
+                headingPath = headingPath.slice(0, -1);
+            }
+            headingLevels.push(level);
+            headingPath = [...headingPath, headingMatch[2]];
+            blocks.push({ text: line.trim(), startLine: lineNumber, endLine: lineNumber, headingPath });
+            continue;
+        }
+
+        if (line.trim() === '') {
+            endParagraph(lineNumber - 1);
+            continue;
+        }
+        if (!paragraph) {
+            paragraph = { lines: [], start: lineNumber };
+        }
+        paragraph.lines.push(line);
+    }
+
+    // An unclosed fence runs to the end of the note
+    if (fence && !options.stripCodeBlocks) {
+        blocks.push({ text: fence.lines.join('\n'), startLine: fence.start, endLine: lines.length, headingPath });
+    }
+    endParagraph(lines.length);
+
+    return blocks;
+}
+
+/**
+ * Find the first line after the frontmatter
+ * @param lines Lines of the note
+ * @param options Chunk options
+ * @returns Index of the first line to chunk
+ */
+function skipFrontmatter(lines: string[], options: ChunkOptions): number {
+    if (!options.stripFrontmatter || lines[0]?.trim() !== '---') {
+        return 0;
+    }
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line === '---' || line === '...') {
+            return i + 1;
+        }
+    }
+    // Without a closing delimiter it is not frontmatter
+    return 0;
+}
+
+/**
+ * Split blocks of a section that are too large into overlapping windows of words
+ * @param blocks The blocks to split, in note order
+ * @param options Chunk options
+ */
+function splitIntoWindows(blocks: Block[], options: ChunkOptions): Block[] {
+    // Keep the line of every word so each window knows its line range
+    const words: { text: string, line: number }[] = [];
+    for (const block of blocks) {
+        block.text.split('\n').forEach((line, offset) => {
+            for (const word of line.split(/\s+/)) {
+                if (word) words.push({ text: word, line: block.startLine + offset });
+            }
+        });
+    }
+    const headingPath = blocks[0].headingPath;
+
+    const windows: Block[] = [];
+    let start = 0;
+    while (start < words.length) {
+        let end = start;
+        let tokens = 0;
+        while (end < words.length && (end === start || tokens + estimateTokens(words[end].text + ' ') <= options.maxTokens)) {
+            tokens += estimateTokens(words[end].text + ' ');
+            end++;
+        }
+        windows.push({
+            text: words.slice(start, end).map(word => word.text).join(' '),
+            startLine: words[start].line,
+            endLine: words[end - 1].line,
+            headingPath
+        });
+        if (end >= words.length) break;
+
+        // Step back by the overlap, but always make progress
+        let next = end;
+        let overlap = 0;
+        while (next > start + 1 && overlap + estimateTokens(words[next - 1].text + ' ') <= options.overlapTokens) {
+            overlap += estimateTokens(words[next - 1].text + ' ');
+            next--;
+        }
+        start = next;
+    }
+    return windows;
+}
@@ -0,0 +1,262 @@
+import { Notice } from 'obsidian';
+import type PGLitePlugin from '../../main';
+import { VectorTableCatalog } from '../storage/VectorTableCatalog';
+import { PGliteVectorStore } from '../storage/PGliteVectorStore';
+import { IndexJobStore } from '../storage/IndexJobStore';
+import { getChunkOptions, getModelInfo, getVectorStoreOptions } from '../settings/PGLitePluginSettings';
+import { EmbeddingModel, createModelInstance, getConfigForModel } from '../models/EmbeddingModel';
+import { ModelChangeConfirmationModal } from '../ui/ModelChangeConfirmationModal';
+import { checkTableCompatibility, recreateVectorTable } from '../utils/VectorHelpers';
+import { VAULT_JOB_PREFIX } from './VaultIndexer';
+
+/**
+ * Moves the embeddings of the vault to another model in the background
+ * The model picked in the settings is kept as settings.pendingModel while every
+ * note of the current model's table is embedded again into the new model's table,
+ * as a vault indexing job that is throttled, can be paused and resumes after a
+ * restart. Rows that are not chunks of a note are embedded again from their content
+ * once the job completes. Search keeps using the current model until then; then
+ * settings.selectedModel switches to the new model in a single save.
+ */
+export class ModelMigration {
+    // Whether the vault indexer is running this migration's job
+    private isMigrating: boolean = false;
+    // Vector table of the pending model, known once the migration started
+    private tableName: string | null = null;
+
+    /**
+     * Create a new ModelMigration
+     * @param plugin Plugin instance
+     */
+    constructor(private plugin: PGLitePlugin) {}
+
+    /**
+     * Check if notes are being embedded for the pending model
+     */
+    isRunning(): boolean {
+        return this.isMigrating;
+    }
+
+    /**
+     * Get the vector table of the pending model, once a migration to it has started
+     */
+    getTableName(): string | null {
+        return this.plugin.settings.pendingModel ? this.tableName : null;
+    }
+
+    /**
+     * Start moving the embeddings to another model
+     * Picking the current model again cancels the migration.
+     * @param modelName Name of the new model
+     */
+    async start(modelName: string): Promise<void> {
+        const settings = this.plugin.settings;
+        if (!getModelInfo(modelName) || modelName === settings.pendingModel) return;
+        if (modelName === settings.selectedModel) {
+            await this.cancel();
+            return;
+        }
+
+        if (settings.pendingModel) {
+            // Stop the migration to the model picked before; the notes it embedded are kept
+            await this.cancel();
+        }
+        settings.pendingModel = modelName;
+        await this.plugin.saveSettings(false);
+        await this.resume();
+    }
+
+    /**
+     * Embed the notes for the pending model, resuming where the migration stopped
+     * @param interruptedOnly Only resume a migration that was interrupted, e.g. by restarting Obsidian
+     */
+    async resume(interruptedOnly: boolean = false): Promise<void> {
+        const settings = this.plugin.settings;
+        const provider = this.plugin.provider;
+        const fromInfo = getModelInfo(settings.selectedModel);
+        const toInfo = settings.pendingModel ? getModelInfo(settings.pendingModel) : undefined;
+        if (!toInfo || !fromInfo) return;
+
+        const indexer = this.plugin.indexer;
+        if (interruptedOnly) {
+            // A job of the database that was just closed stops on its own
+            await indexer.waitUntilStopped();
+        }
+        if (!provider?.isReady()) {
+            if (!interruptedOnly) new Notice('PGlite is not initialized yet');
+            return;
+        }
+        if (indexer.isRunning()) {
+            if (!interruptedOnly) new Notice('Re-embedding starts once vault indexing is paused or done. Run "Resume re-embedding" then.');
+            return;
+        }
+
+        try {
+            const catalog = new VectorTableCatalog(provider);
+            const options = getVectorStoreOptions(settings);
+            const fromStore = await catalog.openStore(fromInfo, options);
+            const toStore = await catalog.openStore(toInfo, options);
+            this.tableName = toStore.getTableName();
+
+            const existingJob = await indexer.loadJob(provider, this.tableName);
+            if (interruptedOnly && existingJob?.status !== 'running') return;
+            if (provider.isReadOnly()) {
+                new Notice('Cannot re-embed notes while the database is open read-only');
+                return;
+            }
+
+            const model = createModelInstance(toInfo, getConfigForModel(settings, toInfo));
+            const compatibility = await checkTableCompatibility(model, toStore);
+            if (!compatibility.compatible) {
+                // Ask user for confirmation to recreate the table
+                new ModelChangeConfirmationModal(
+                    this.plugin.app,
+                    toInfo.name,
+                    compatibility.modelDimensions,
+                    compatibility.tableDimensions || 0,
+                    async (confirmed) => {
+                        if (confirmed) {
+                            await recreateVectorTable(toStore);
+                            await this.resume(interruptedOnly);
+                        }
+                    }
+                ).open();
+                return;
+            }
+            await toStore.createTable();
+
+            // Only the notes embedded with the current model are moved; with none, there is nothing to wait for
+            const paths = (await fromStore.checkTableExists()).exists ? await fromStore.getNotePaths() : [];
+            if (paths.length === 0 && (!existingJob || existingJob.status === 'completed')) {
+                await this.cutOver(0, await this.moveStandaloneRows(fromStore, toStore, model));
+                return;
+            }
+
+            new Notice(existingJob && existingJob.status !== 'completed'
+                ? `Resuming re-embedding with ${toInfo.name}...`
+                : `Re-embedding ${paths.length} notes with ${toInfo.name}. Search uses ${fromInfo.name} until it is done.`);
+            this.isMigrating = true;
+            let job;
+            try {
+                job = await indexer.run(provider, model, toStore, getChunkOptions(settings), {
+                    paths,
+                    maxPerMinute: settings.reembedMaxPerMinute
+                });
+            } finally {
+                this.isMigrating = false;
+            }
+
+            if (!job) {
+                new Notice('Re-embedding cancelled');
+            } else if (job.status === 'completed') {
+                // Another model may have been picked while the job stopped
+                if (settings.pendingModel === toInfo.name) {
+                    await this.cutOver(job.failed, await this.moveStandaloneRows(fromStore, toStore, model));
+                }
+            } else if (job.status === 'paused') {
+                // Keep this on screen when the embedding model is unavailable
+                new Notice(
+                    `Re-embedding paused at ${job.done + job.failed} of ${job.total} notes` +
+                    (job.lastError ? `: ${job.lastError}` : '') +
+                    `\n\nSearch keeps using ${fromInfo.name}. Run "Resume re-embedding" to continue.`,
+                    job.lastError ? 0 : undefined
+                );
+            }
+        } catch (error) {
+            console.error('Error re-embedding notes:', error);
+            new Notice('Error re-embedding notes: ' + (error as Error).message);
+        }
+    }
+
+    /**
+     * Pause re-embedding
+     * @returns False if it is not running
+     */
+    pause(): boolean {
+        return this.isMigrating && this.plugin.indexer.pause();
+    }
+
+    /**
+     * Stay with the current model and delete the checkpoint of the migration
+     * The notes embedded for the pending model so far are kept in its table.
+     */
+    async cancel(): Promise<void> {
+        const settings = this.plugin.settings;
+        const provider = this.plugin.provider;
+        const toInfo = settings.pendingModel ? getModelInfo(settings.pendingModel) : undefined;
+
+        if (this.isMigrating) {
+            // The run stops once the note being embedded is done
+            await this.plugin.indexer.cancel(provider!, this.tableName!);
+            await this.plugin.indexer.waitUntilStopped();
+        } else if (toInfo && provider?.isReady() && !provider.isReadOnly()) {
+            const tableName = await new VectorTableCatalog(provider).getTableName(toInfo);
+            if (this.plugin.indexer.isRunning()) {
+                // Vault indexing of the current model is running, so only the checkpoint goes
+                await new IndexJobStore(provider).deleteJob(VAULT_JOB_PREFIX + tableName);
+            } else {
+                await this.plugin.indexer.cancel(provider, tableName);
+            }
+        }
+
+        settings.pendingModel = null;
+        this.tableName = null;
+        await this.plugin.saveSettings(false);
+    }
+
+    /**
+     * Embed the rows of the current model's table that are not chunks of a note for the new model
+     * The vault indexing job only covers notes, so rows stored with insertVector() would
+     * otherwise be left behind. Rows embedded before the migration was interrupted are skipped.
+     * @param fromStore Vector store of the current model
+     * @param toStore Vector store of the new model
+     * @param model The new model
+     * @returns Number of rows that could not be embedded
+     */
+    private async moveStandaloneRows(fromStore: PGliteVectorStore, toStore: PGliteVectorStore, model: EmbeddingModel): Promise<number> {
+        if (!(await fromStore.checkTableExists()).exists) return 0;
+        
+        // Count the contents already moved, as the same content may be stored more than once
+        const moved = new Map<string, number>();
+        for (const content of await toStore.getStandaloneContents()) {
+            moved.set(content, (moved.get(content) ?? 0) + 1);
+        }
+        
+        let failed = 0;
+        for (const content of await fromStore.getStandaloneContents()) {
+            const count = moved.get(content) ?? 0;
+            if (count > 0) {
+                moved.set(content, count - 1);
+                continue;
+            }
+            try {
+                await toStore.insertVector(content, await model.generateEmbedding(content));
+            } catch (error) {
+                console.error('Error re-embedding a row without a note:', error);
+                failed++;
+            }
+        }
+        return failed;
+    }
+
+    /**
+     * Switch search and indexing to the pending model
+     * @param failed Number of notes that could not be embedded
+     * @param failedRows Number of rows without a note that could not be embedded
+     */
+    private async cutOver(failed: number = 0, failedRows: number = 0): Promise<void> {
+        const settings = this.plugin.settings;
+        const previous = settings.selectedModel;
+        settings.selectedModel = settings.pendingModel!;
+        settings.pendingModel = null;
+        this.tableName = null;
+        await this.plugin.saveSettings(false);
+
+        const failures = [
+            failed > 0 ? `${failed} notes` : '',
+            failedRows > 0 ? `${failedRows} rows without a note` : ''
+        ].filter(Boolean).join(' and ');
+        const failuresText = failures ? ` ${failures} failed (see the developer console).` : '';
+        new Notice(`Switched from ${previous} to ${settings.selectedModel}.${failuresText}`);
+    }
+}
@@ -0,0 +1,288 @@
+import { App, Events, TFile } from 'obsidian';
+import { EmbeddingModel } from '../models/EmbeddingModel';
+import { PGliteProvider } from '../storage/PGliteProvider';
+import { PGliteVectorStore } from '../storage/PGliteVectorStore';
+import { IndexJob, IndexJobStatus, IndexJobStore } from '../storage/IndexJobStore';
+import { ChunkOptions } from './MarkdownChunker';
+import { getNoteRecord } from '../utils/NoteHelpers';
+import { upsertNoteAsVector } from '../utils/VectorHelpers';
+import { EmbeddingProvenanceError } from '../storage/PGliteVectorStore';
+
+// Prefix of the job ids; the vault is indexed by one job per vector table
+export const VAULT_JOB_PREFIX = 'vault:';
+
+// Notes indexed between saves of the checkpoint
+const BATCH_SIZE = 20;
+
+// Failures in a row after which the embedding model is assumed to be unavailable
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+/**
+ * Progress of vault indexing, emitted as 'progress'
+ * The status is null when there is no job to show, e.g. after it was cancelled
+ * or while the database it runs in is closed.
+ */
+export interface IndexProgress {
+    status: IndexJobStatus | null;
+    // Vector table the job fills, or null without a job
+    tableName: string | null;
+    total: number;
+    done: number;
+    failed: number;
+}
+
+/**
+ * Options of a vault indexing run
+ */
+export interface VaultIndexOptions {
+    // Notes to index when a new job starts (default: every note of the vault)
+    paths?: string[];
+    // Maximum number of notes embedded per minute (default: no limit)
+    maxPerMinute?: number;
+}
+
+/**
+ * Embeds all notes of the vault in batches
+ * Progress is checkpointed in the database, so a job that is paused, or
+ * interrupted by closing Obsidian or the database, resumes with the notes that
+ * are still pending instead of starting over.
+ */
+export class VaultIndexer extends Events {
+    private isIndexing: boolean = false;
+    private current: Promise<IndexJob | null> | null = null;
+    private stopRequest: 'pause' | 'cancel' | null = null;
+
+    /**
+     * Create a new VaultIndexer
+     * @param app Obsidian app instance
+     */
+    constructor(private app: App) {
+        super();
+    }
+
+    /**
+     * Check if a job is being run
+     */
+    isRunning(): boolean {
+        return this.isIndexing;
+    }
+
+    /**
+     * Wait until the running job has stopped, e.g. after its database was closed
+     */
+    async waitUntilStopped(): Promise<void> {
+        try {
+            await this.current;
+        } catch (error) {
+            // Reported by whoever started the job
+        }
+    }
+
+    /**
+     * Get the vault indexing job of a vector table and report its progress
+     * @param provider PGlite provider of the database
+     * @param tableName Name of the vector table
+     * @returns The job, or null if there is none
+     */
+    async loadJob(provider: PGliteProvider, tableName: string): Promise<IndexJob | null> {
+        const job = await new IndexJobStore(provider).getJob(VAULT_JOB_PREFIX + tableName);
+        this.emitProgress(job);
+        return job;
+    }
+
+    /**
+     * Index the vault, resuming a paused or interrupted job
+     * A completed job is replaced by a new one; notes that did not change since
+     * they were stored are skipped without embedding.
+     * @param provider PGlite provider
+     * @param model The embedding model
+     * @param store The vector store
+     * @param chunkOptions How to split notes into chunks
+     * @param options Notes to index and throttling
+     * @returns The job when it stopped, or null if it was cancelled
+     */
+    async run(
+        provider: PGliteProvider,
+        model: EmbeddingModel,
+        store: PGliteVectorStore,
+        chunkOptions: ChunkOptions,
+        options: VaultIndexOptions = {}
+    ): Promise<IndexJob | null> {
+        if (this.isIndexing) {
+            throw new Error('Vault indexing is already running');
+        }
+        this.isIndexing = true;
+        this.stopRequest = null;
+        this.current = this.runJob(provider, model, store, chunkOptions, options);
+        return this.current;
+    }
+
+    private async runJob(
+        provider: PGliteProvider,
+        model: EmbeddingModel,
+        store: PGliteVectorStore,
+        chunkOptions: ChunkOptions,
+        options: VaultIndexOptions
+    ): Promise<IndexJob | null> {
+        try {
+            const jobs = new IndexJobStore(provider);
+            const jobId = VAULT_JOB_PREFIX + store.getTableName();
+            let job = await jobs.getJob(jobId);
+            if (!job || job.status === 'completed') {
+                const paths = options.paths ?? this.app.vault.getMarkdownFiles().map(file => file.path);
+                job = await jobs.startJob(jobId, paths);
+            } else {
+                await jobs.setStatus(jobId, 'running');
+                job = { ...job, status: 'running', lastError: null };
+            }
+            this.emitProgress(job);
+
+            const progress: IndexProgress = {
+                status: 'running',
+                tableName: store.getTableName(),
+                total: job.total,
+                done: job.done,
+                failed: job.failed
+            };
+            // Notes that failed since the last success; a failure only counts as the
+            // note's fault once a later note succeeds, otherwise the model is down
+            const unconfirmed: { path: string, error: string }[] = [];
+            let outage: string | null = null;
+            // Embeddings that do not fit the table fail for every note, so the job stops at once
+            let mismatch: string | null = null;
+            let interrupted = false;
+            // When throttled, a batch takes about a minute at most, so checkpoints are still saved regularly
+            const interval = options.maxPerMinute ? 60 * 1000 / Math.max(options.maxPerMinute, 1) : 0;
+            const batchSize = options.maxPerMinute ? Math.max(Math.min(BATCH_SIZE, Math.floor(options.maxPerMinute)), 1) : BATCH_SIZE;
+            let nextEmbedAt = 0;
+
+            const markFailed = async () => {
+                for (const failure of unconfirmed.splice(0)) {
+                    await jobs.markFile(jobId, failure.path, 'failed', failure.error);
+                    progress.failed++;
+                }
+            };
+
+            while (!this.stopRequest && !outage && !mismatch && !interrupted) {
+                if (!provider.isReady() || provider.isReadOnly()) {
+                    interrupted = true;
+                    break;
+                }
+                const paths = await jobs.getPendingPaths(jobId, batchSize, unconfirmed.map(failure => failure.path));
+                if (paths.length === 0) break;
+
+                // Save the batch and its checkpoint together
+                await provider.withAutosaveSuspended(async () => {
+                    for (const path of paths) {
+                        await this.sleepUntil(nextEmbedAt);
+                        if (this.stopRequest) return;
+                        try {
+                            // Notes deleted since the job started count as done
+                            const file = this.app.vault.getAbstractFileByPath(path);
+                            if (file instanceof TFile) {
+                                const note = await getNoteRecord(this.app, file);
+                                const result = await upsertNoteAsVector(model, store, note, chunkOptions);
+                                // Only embedded notes count towards the rate limit
+                                if (!result.skipped) {
+                                    nextEmbedAt = Date.now() + interval;
+                                }
+                            }
+                            await markFailed();
+                            await jobs.markFile(jobId, path, 'done');
+                            progress.done++;
+                        } catch (error) {
+                            if (!provider.isReady() || provider.isReadOnly()) {
+                                interrupted = true;
+                                return;
+                            }
+                            console.error(`Error indexing ${path}:`, error);
+                            if (error instanceof EmbeddingProvenanceError) {
+                                mismatch = error.message;
+                                return;
+                            }
+                            unconfirmed.push({ path, error: (error as Error).message });
+                            if (unconfirmed.length >= MAX_CONSECUTIVE_FAILURES) {
+                                outage = (error as Error).message;
+                                return;
+                            }
+                        }
+                        this.trigger('progress', { ...progress });
+                    }
+                });
+            }
+
+            if (interrupted) {
+                // The job stays running and resumes when the database is open again
+                console.log('Vault indexing interrupted because the database is not writable');
+                this.emitProgress(null);
+                return { ...job, done: progress.done, failed: progress.failed };
+            }
+            if (this.stopRequest === 'cancel') {
+                await jobs.deleteJob(jobId);
+                this.emitProgress(null);
+                return null;
+            }
+            if (this.stopRequest === 'pause' || outage || mismatch) {
+                const lastError = mismatch
+                    ?? (outage ? `The embedding model failed ${MAX_CONSECUTIVE_FAILURES} times in a row: ${outage}` : null);
+                await jobs.setStatus(jobId, 'paused', lastError);
+            } else {
+                await markFailed();
+                await jobs.setStatus(jobId, 'completed');
+                // An IVFFlat index can only be built once the table is filled
+                await store.ensureIndex();
+            }
+
+            job = await jobs.getJob(jobId);
+            this.emitProgress(job);
+            return job;
+        } finally {
+            this.isIndexing = false;
+            this.stopRequest = null;
+            this.current = null;
+        }
+    }
+
+    /**
+     * Pause the running job after the note being indexed
+     * @returns False if no job is running
+     */
+    pause(): boolean {
+        if (!this.isIndexing) return false;
+        this.stopRequest = 'pause';
+        return true;
+    }
+
+    /**
+     * Cancel vault indexing and delete its checkpoint
+     * The notes indexed so far are kept.
+     * @param provider PGlite provider of the database
+     * @param tableName Name of the vector table whose job to cancel when none is running
+     */
+    async cancel(provider: PGliteProvider, tableName: string): Promise<void> {
+        if (this.isIndexing) {
+            // run() deletes the job once the note being indexed is done
+            this.stopRequest = 'cancel';
+            return;
+        }
+        await new IndexJobStore(provider).deleteJob(VAULT_JOB_PREFIX + tableName);
+        this.emitProgress(null);
+    }
+
+    /**
+     * Wait until a time, or until the run is asked to stop
+     * @param time Time in milliseconds
+     */
+    private async sleepUntil(time: number): Promise<void> {
+        while (!this.stopRequest && Date.now() < time) {
+            await new Promise(resolve => window.setTimeout(resolve, Math.min(time - Date.now(), 1000)));
+        }
+    }
+
+    private emitProgress(job: IndexJob | null) {
+        const progress: IndexProgress = job
+            ? { status: job.status, tableName: job.id.substring(VAULT_JOB_PREFIX.length), total: job.total, done: job.done, failed: job.failed }
+            : { status: null, tableName: null, total: 0, done: 0, failed: 0 };
+        this.trigger('progress', progress);
+    }
+}
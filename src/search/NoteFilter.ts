@@ -0,0 +1,217 @@
+import type { VectorSearchFilter } from '../storage/PGliteVectorStore';
+
+/**
+ * A frontmatter value a filter can compare with
+ */
+export type FrontmatterValue = string | number | boolean;
+
+/**
+ * Condition on a frontmatter property
+ * - a value: the property equals it, or is a list containing it
+ * - in: the property matches any of the values
+ * - not: the property does not match the value, or is missing
+ * - exists: the property is present or missing
+ */
+export type FrontmatterPredicate =
+    | FrontmatterValue
+    | { in: FrontmatterValue[] }
+    | { not: FrontmatterValue }
+    | { exists: boolean };
+
+/**
+ * Conditions on the notes a similarity search returns; all of them must match
+ */
+export interface NoteFilter {
+    // Vault folder the notes must be in, directly or in a subfolder
+    folder?: string;
+    // Tags the notes must all have, with or without the leading #; nested tags count
+    tags?: string[];
+    // Conditions on frontmatter properties by name
+    frontmatter?: Record<string, FrontmatterPredicate>;
+    // Modification time range; after is inclusive, before exclusive
+    modifiedAfter?: Date;
+    modifiedBefore?: Date;
+}
+
+/**
+ * Get the SQL condition of a search filter
+ * @param filter A NoteFilter, an SQL condition, or nothing
+ * @returns The condition, or null if there is none
+ */
+export function toVectorSearchFilter(filter?: NoteFilter | VectorSearchFilter): VectorSearchFilter | null {
+    if (!filter) return null;
+    return 'where' in filter ? filter : compileNoteFilter(filter);
+}
+
+/**
+ * Compile a NoteFilter to a parameterized SQL condition on the vector table
+ * Every value is passed as a param, so filters can safely come from user input.
+ * @param filter The filter
+ * @returns The condition, or null if the filter has no conditions
+ */
+export function compileNoteFilter(filter: NoteFilter): VectorSearchFilter | null {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const param = (value: unknown) => {
+        params.push(value);
+        return `$${params.length}`;
+    };
+
+    const folder = filter.folder?.replace(/^\/+|\/+$/g, '');
+    if (folder) {
+        conditions.push(`path LIKE ${param(escapeLike(folder) + '/%')}`);
+    }
+
+    for (const rawTag of filter.tags ?? []) {
+        const tag = rawTag.replace(/^#/, '').toLowerCase();
+        if (!tag) continue;
+        conditions.push(
+            `EXISTS (SELECT 1 FROM unnest(tags) AS tag WHERE lower(tag) = ${param(tag)} OR lower(tag) LIKE ${param(escapeLike(tag) + '/%')})`
+        );
+    }
+
+    for (const [key, predicate] of Object.entries(filter.frontmatter ?? {})) {
+        if (typeof predicate !== 'object') {
+            conditions.push(matchesValue(param, key, predicate));
+        } else if ('in' in predicate) {
+            const matches = predicate.in.map(value => matchesValue(param, key, value));
+            conditions.push(matches.length > 0 ? `(${matches.join(' OR ')})` : 'false');
+        } else if ('not' in predicate) {
+            conditions.push(`NOT coalesce(${matchesValue(param, key, predicate.not)}, false)`);
+        } else {
+            conditions.push(`${predicate.exists ? '' : 'NOT '}frontmatter ? ${param(key)}::text`);
+        }
+    }
+
+    if (filter.modifiedAfter) {
+        conditions.push(`mtime >= ${param(filter.modifiedAfter.toISOString())}::timestamptz`);
+    }
+    if (filter.modifiedBefore) {
+        conditions.push(`mtime < ${param(filter.modifiedBefore.toISOString())}::timestamptz`);
+    }
+
+    if (conditions.length === 0) {
+        return null;
+    }
+    return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * Parse the filters out of a search query
+ * Follows Obsidian's search syntax: path:Projects, tag:#meeting or #meeting, and
+ * [status:active] for frontmatter properties, with [status] for any value.
+ * after:2024-01-01 and before:2024-07-01 limit the modification date. Values with
+ * spaces can be quoted, e.g. path:"Work Notes".
+ * @param query The search query
+ * @returns The filter and the remaining text to search for
+ */
+export function parseNoteFilterQuery(query: string): { filter: NoteFilter, text: string } {
+    const filter: NoteFilter = {};
+    const words: string[] = [];
+    const tokenPattern = /\[([^\]:]+)(?::([^\]]*))?\]|(\w+):(?:"([^"]*)"|(\S+))|#([^\s#]+)|(\S+)/g;
+
+    for (const match of query.matchAll(tokenPattern)) {
+        const [token, propertyKey, propertyValue, key, quotedValue, plainValue, hashTag] = match;
+        if (propertyKey !== undefined) {
+            const value = propertyValue?.trim().replace(/^"(.*)"$/, '$1');
+            filter.frontmatter = {
+                ...filter.frontmatter,
+                [propertyKey.trim()]: value ? parseFrontmatterValue(value) : { exists: true }
+            };
+        } else if (hashTag !== undefined) {
+            filter.tags = [...(filter.tags ?? []), hashTag];
+        } else if (key === undefined || !applyOperator(filter, key.toLowerCase(), quotedValue ?? plainValue)) {
+            // Plain words, and words that only look like operators, e.g. error:ENOENT
+            words.push(token);
+        }
+    }
+
+    return { filter, text: words.join(' ') };
+}
+
+/**
+ * Describe each condition of a filter, e.g. to show it as a chip
+ * @param filter The filter
+ */
+export function describeNoteFilter(filter: NoteFilter): string[] {
+    const labels: string[] = [];
+    if (filter.folder) labels.push(`path: ${filter.folder}`);
+    for (const tag of filter.tags ?? []) {
+        labels.push(`#${tag.replace(/^#/, '')}`);
+    }
+    for (const [key, predicate] of Object.entries(filter.frontmatter ?? {})) {
+        if (typeof predicate !== 'object') {
+            labels.push(`${key}: ${predicate}`);
+        } else if ('in' in predicate) {
+            labels.push(`${key}: ${predicate.in.join(' or ')}`);
+        } else if ('not' in predicate) {
+            labels.push(`${key}: not ${predicate.not}`);
+        } else {
+            labels.push(predicate.exists ? `has ${key}` : `no ${key}`);
+        }
+    }
+    if (filter.modifiedAfter) labels.push(`modified from ${filter.modifiedAfter.toLocaleDateString()}`);
+    if (filter.modifiedBefore) labels.push(`modified before ${filter.modifiedBefore.toLocaleDateString()}`);
+    return labels;
+}
+
+/**
+ * Apply a key:value operator of the query syntax to a filter
+ * @returns False if the key is not an operator or the value is invalid
+ */
+function applyOperator(filter: NoteFilter, key: string, value: string): boolean {
+    switch (key) {
+        case 'path':
+        case 'folder':
+            filter.folder = value;
+            return true;
+        case 'tag':
+            filter.tags = [...(filter.tags ?? []), value];
+            return true;
+        case 'after':
+        case 'before': {
+            // Dates without a time start at local midnight, like the dates shown in Obsidian
+            const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00` : value);
+            if (isNaN(date.getTime())) return false;
+            if (key === 'after') {
+                filter.modifiedAfter = date;
+            } else {
+                filter.modifiedBefore = date;
+            }
+            return true;
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * Read a frontmatter value typed in a query as the YAML type it would have
+ * @param value The value as typed
+ */
+function parseFrontmatterValue(value: string): FrontmatterValue {
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+    return value;
+}
+
+/**
+ * SQL condition that a frontmatter property equals a value or is a list containing it
+ * Each placeholder is used once, since live queries cannot reuse them.
+ * @param param Adds a value to the params and returns its placeholder
+ * @param key Name of the property
+ * @param value The value
+ */
+function matchesValue(param: (value: unknown) => string, key: string, value: FrontmatterValue): string {
+    const json = JSON.stringify(value);
+    return `(frontmatter -> ${param(key)}::text = ${param(json)}::jsonb ` +
+        `OR frontmatter -> ${param(key)}::text @> jsonb_build_array(${param(json)}::jsonb))`;
+}
+
+/**
+ * Escape the wildcards of a LIKE pattern
+ * @param value Literal text to match
+ */
+function escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
+}
@@ -1,4 +1,7 @@
 import { EmbeddingProvider, ModelConfig } from '../models/EmbeddingModel';
+import { AutosaveMode } from '../storage/AutosaveScheduler';
+import { ChunkOptions, DEFAULT_CHUNK_OPTIONS } from '../indexing/MarkdownChunker';
+import { DEFAULT_KEYWORD_WEIGHT, DEFAULT_VECTOR_INDEX_OPTIONS, DEFAULT_VECTOR_SEARCH_TUNING, VectorIndexType, VectorStoreOptions } from '../storage/PGliteVectorStore';
 
 /**
  * Information about an embedding model
@@ -50,9 +53,46 @@ export type ProviderSettingsMap = {
  * Settings for the PGLite plugin
  */
 export interface PGLitePluginSettings {
+    // Name of the active database
     databaseName: string;
+    // Names of all databases that can be switched to
+    databases: string[];
     relaxedDurability: boolean;
+    // Host the database in a Web Worker to keep the UI responsive
+    useWorker: boolean;
+    autosaveMode: AutosaveMode;
+    autosaveDelaySeconds: number;
+    dailyBackups: boolean;
+    backupRetention: number;
+    // Vault folder for SQL dumps
+    sqlExportFolder: string;
     selectedModel: string;
+    // Model the notes are being re-embedded with; search uses selectedModel until it is done
+    pendingModel: string | null;
+    // Maximum number of notes re-embedded per minute after changing the model
+    reembedMaxPerMinute: number;
+    // How notes are split into chunks before embedding
+    chunkMaxTokens: number;
+    chunkOverlapTokens: number;
+    chunkStripFrontmatter: boolean;
+    chunkStripCodeBlocks: boolean;
+    // Re-embed notes when they are created, changed, moved or deleted
+    autoIndex: boolean;
+    // Quiet time after the last change of a note before it is embedded
+    autoIndexDelaySeconds: number;
+    // Maximum number of notes embedded per minute
+    autoIndexMaxPerMinute: number;
+    // Approximate nearest-neighbour index on the embeddings and how it is searched
+    vectorIndexType: VectorIndexType;
+    hnswM: number;
+    hnswEfConstruction: number;
+    ivfflatLists: number;
+    hnswEfSearch: number;
+    ivfflatProbes: number;
+    // Similarity score between 0 and 1 below which search results are left out
+    minSimilarityScore: number;
+    // Share of the keyword ranking in hybrid search results, between 0 and 1
+    keywordWeight: number;
     // Provider settings map for all embedding providers
     providers: ProviderSettingsMap;
 }
@@ -62,8 +102,32 @@ export interface PGLitePluginSettings {
  */
 export const DEFAULT_SETTINGS: PGLitePluginSettings = {
     databaseName: 'pglite',
+    databases: ['pglite'],
     relaxedDurability: true,
+    useWorker: true,
+    autosaveMode: 'debounce',
+    autosaveDelaySeconds: 5,
+    dailyBackups: true,
+    backupRetention: 7,
+    sqlExportFolder: 'PGlite Exports',
     selectedModel: 'nomic-embed-text',
+    pendingModel: null,
+    reembedMaxPerMinute: 60,
+    chunkMaxTokens: DEFAULT_CHUNK_OPTIONS.maxTokens,
+    chunkOverlapTokens: DEFAULT_CHUNK_OPTIONS.overlapTokens,
+    chunkStripFrontmatter: DEFAULT_CHUNK_OPTIONS.stripFrontmatter,
+    chunkStripCodeBlocks: DEFAULT_CHUNK_OPTIONS.stripCodeBlocks,
+    autoIndex: false,
+    autoIndexDelaySeconds: 30,
+    autoIndexMaxPerMinute: 20,
+    vectorIndexType: DEFAULT_VECTOR_INDEX_OPTIONS.type,
+    hnswM: DEFAULT_VECTOR_INDEX_OPTIONS.m,
+    hnswEfConstruction: DEFAULT_VECTOR_INDEX_OPTIONS.efConstruction,
+    ivfflatLists: DEFAULT_VECTOR_INDEX_OPTIONS.lists,
+    hnswEfSearch: DEFAULT_VECTOR_SEARCH_TUNING.efSearch,
+    ivfflatProbes: DEFAULT_VECTOR_SEARCH_TUNING.probes,
+    minSimilarityScore: 0,
+    keywordWeight: DEFAULT_KEYWORD_WEIGHT,
     // Initialize the providers map
     providers: {
         [EmbeddingProvider.Ollama]: {
@@ -127,6 +191,38 @@ export function getModelsForProvider(provider: EmbeddingProvider): EmbeddingMode
     return AVAILABLE_MODELS.filter(model => model.provider === provider);
 }
 
+/**
+ * Get the chunk options from the settings
+ * @param settings Plugin settings
+ */
+export function getChunkOptions(settings: PGLitePluginSettings): ChunkOptions {
+    return {
+        maxTokens: settings.chunkMaxTokens,
+        overlapTokens: settings.chunkOverlapTokens,
+        stripFrontmatter: settings.chunkStripFrontmatter,
+        stripCodeBlocks: settings.chunkStripCodeBlocks
+    };
+}
+
+/**
+ * Get the vector index and search options from the settings
+ * @param settings Plugin settings
+ */
+export function getVectorStoreOptions(settings: PGLitePluginSettings): VectorStoreOptions {
+    return {
+        index: {
+            type: settings.vectorIndexType,
+            m: settings.hnswM,
+            efConstruction: settings.hnswEfConstruction,
+            lists: settings.ivfflatLists
+        },
+        search: {
+            efSearch: settings.hnswEfSearch,
+            probes: settings.ivfflatProbes
+        }
+    };
+}
+
 /**
  * Get model information by name
  * @param name Model name
@@ -1,15 +1,21 @@
-import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
-import { PGLitePluginSettings, AVAILABLE_MODELS, getModelInfo } from './PGLitePluginSettings';
-import { ModelChangeConfirmationModal } from '../ui/ModelChangeConfirmationModal';
+import { App, EventRef, Notice, PluginSettingTab, Setting } from 'obsidian';
+import { PGLitePluginSettings, AVAILABLE_MODELS, getModelInfo, getVectorStoreOptions } from './PGLitePluginSettings';
 import PGLitePlugin from '../../main';
 import { EmbeddingProvider, MODEL_FIELD_METADATA, ModelConfigField, getRegisteredProviders } from '../models/EmbeddingModel';
-import { PGliteVectorStore } from '../storage/PGliteVectorStore';
+import { DEFAULT_KEYWORD_WEIGHT, DistanceMetric, PGliteVectorStore, VectorIndexType } from '../storage/PGliteVectorStore';
+import { RebuildVectorIndexCommand } from '../commands/VectorCommands';
+import { VectorTableCatalog } from '../storage/VectorTableCatalog';
+import { formatBytes } from '../utils/FormatHelpers';
+import { AutosaveMode } from '../storage/AutosaveScheduler';
+import { ConfirmModal } from '../ui/ConfirmModal';
+import { TextInputModal } from '../ui/TextInputModal';
 
 /**
  * Settings tab for the PGLite plugin
  */
 export class PGLiteSettingTab extends PluginSettingTab {
     plugin: PGLitePlugin;
+    private saveStateRef: EventRef | null = null;
 
     constructor(app: App, plugin: PGLitePlugin) {
         super(app, plugin);
@@ -23,15 +29,63 @@ export class PGLiteSettingTab extends PluginSettingTab {
         containerEl.createEl('h2', {text: 'PGlite Settings'});
 
         // Database settings
+        containerEl.createEl('h3', {text: 'Databases'});
+
+        for (const databaseName of this.plugin.settings.databases) {
+            const isActive = databaseName === this.plugin.settings.databaseName;
+            const setting = new Setting(containerEl)
+                .setName(databaseName)
+                .setDesc(isActive ? 'Active database' : '');
+
+            if (!isActive) {
+                setting.addButton(button => button
+                    .setButtonText('Switch')
+                    .onClick(() => this.runDatabaseAction('switching database', () =>
+                        this.plugin.switchDatabase(databaseName))));
+            }
+
+            setting.addButton(button => button
+                .setButtonText('Rename')
+                .onClick(() => {
+                    new TextInputModal(this.app, `Rename database "${databaseName}"`, databaseName, 'Rename', (newName) => {
+                        if (!newName || newName === databaseName) return;
+                        this.runDatabaseAction('renaming database', () =>
+                            this.plugin.renameDatabase(databaseName, newName));
+                    }).open();
+                }));
+
+            if (!isActive) {
+                setting.addButton(button => button
+                    .setButtonText('Delete')
+                    .setWarning()
+                    .onClick(() => {
+                        new ConfirmModal(
+                            this.app,
+                            'Delete Database',
+                            `This permanently deletes the database "${databaseName}" and all of its backups.`,
+                            'Delete',
+                            (confirmed) => {
+                                if (!confirmed) return;
+                                this.runDatabaseAction('deleting database', () =>
+                                    this.plugin.deleteDatabase(databaseName));
+                            }
+                        ).open();
+                    }));
+            }
+        }
+
         new Setting(containerEl)
-            .setName('Database Name')
-            .setDesc('The name of the database file to use')
-            .addText(text => text
-                .setPlaceholder('Enter database name')
-                .setValue(this.plugin.settings.databaseName)
-                .onChange(async (value) => {
-                    this.plugin.settings.databaseName = value;
-                    await this.plugin.saveSettings(true);
+            .setName('New Database')
+            .setDesc('Add another database, e.g. for experiments. Switch to it to create its files.')
+            .addButton(button => button
+                .setButtonText('Create')
+                .setCta()
+                .onClick(() => {
+                    new TextInputModal(this.app, 'Create database', '', 'Create', (databaseName) => {
+                        if (!databaseName) return;
+                        this.runDatabaseAction('creating database', () =>
+                            this.plugin.createDatabase(databaseName));
+                    }).open();
                 }));
 
         new Setting(containerEl)
@@ -43,6 +97,99 @@ export class PGLiteSettingTab extends PluginSettingTab {
                     this.plugin.settings.relaxedDurability = value;
                     await this.plugin.saveSettings(true);
                 }));
+
+        new Setting(containerEl)
+            .setName('Run in Background Worker')
+            .setDesc('Run the database in a Web Worker so large queries and saves do not freeze the editor. Turn this off to run it on the main thread, e.g. for debugging.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.useWorker)
+                .onChange(async (value) => {
+                    this.plugin.settings.useWorker = value;
+                    await this.plugin.saveSettings(true);
+                }));
+
+        // Persistence settings
+        containerEl.createEl('h3', {text: 'Persistence'});
+
+        new Setting(containerEl)
+            .setName('Autosave')
+            .setDesc('When to write changes to disk. Debounce saves once writes have been quiet for the delay, interval saves every delay while there are unsaved changes. Changes are always saved when the window loses focus and before Obsidian quits.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    debounce: 'After writes settle (debounce)',
+                    interval: 'On a fixed interval',
+                    manual: 'Only on blur, quit or ribbon click'
+                })
+                .setValue(this.plugin.settings.autosaveMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.autosaveMode = value as AutosaveMode;
+                    await this.plugin.saveSettings(true);
+                }));
+
+        new Setting(containerEl)
+            .setName('Autosave Delay')
+            .setDesc('Delay in seconds used by the debounce and interval modes')
+            .addText(text => text
+                .setPlaceholder('5')
+                .setValue(String(this.plugin.settings.autosaveDelaySeconds))
+                .onChange(async (value) => {
+                    const seconds = parseInt(value);
+                    if (isNaN(seconds) || seconds < 1) return;
+                    this.plugin.settings.autosaveDelaySeconds = seconds;
+                    await this.plugin.saveSettings(true);
+                }));
+
+        new Setting(containerEl)
+            .setName('Daily Backups')
+            .setDesc('Keep a daily snapshot of the database in the backups folder. Snapshots are also taken before destructive operations such as recreating the vector table.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.dailyBackups)
+                .onChange(async (value) => {
+                    this.plugin.settings.dailyBackups = value;
+                    await this.plugin.saveSettings(true);
+                }));
+
+        new Setting(containerEl)
+            .setName('Backups to Keep')
+            .setDesc('Number of snapshots to keep per database. Older snapshots are deleted.')
+            .addText(text => text
+                .setPlaceholder('7')
+                .setValue(String(this.plugin.settings.backupRetention))
+                .onChange(async (value) => {
+                    const count = parseInt(value);
+                    if (isNaN(count) || count < 1) return;
+                    this.plugin.settings.backupRetention = count;
+                    await this.plugin.saveSettings(true);
+                }));
+
+        new Setting(containerEl)
+            .setName('SQL Export Folder')
+            .setDesc('Vault folder that "Export database as SQL" writes dumps to')
+            .addText(text => text
+                .setPlaceholder('PGlite Exports')
+                .setValue(this.plugin.settings.sqlExportFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.sqlExportFolder = value.trim();
+                    await this.plugin.saveSettings(false);
+                }));
+
+        const saveStateSetting = new Setting(containerEl)
+            .setName('Last Saved')
+            .addButton(button => button
+                .setButtonText('Save now')
+                .onClick(async () => {
+                    try {
+                        await this.plugin.provider?.save();
+                    } catch (error) {
+                        new Notice('Error saving database: ' + (error as Error).message);
+                    }
+                }));
+        const updateSaveState = () => saveStateSetting.setDesc(this.describeSaveState());
+        updateSaveState();
+        this.clearSaveStateListener();
+        if (this.plugin.provider) {
+            this.saveStateRef = this.plugin.provider.on('save-state-change', updateSaveState);
+        }
                 
         // Embeddings settings
         containerEl.createEl('h3', {text: 'Embeddings'});
@@ -98,82 +245,434 @@ export class PGLiteSettingTab extends PluginSettingTab {
         // Model selection
         containerEl.createEl('h4', {text: 'Default Model'});
         
-        new Setting(containerEl)
+        const pendingModel = this.plugin.settings.pendingModel;
+        const modelSetting = new Setting(containerEl)
             .setName('Embedding Model')
-            .setDesc('The model to use for embeddings')
+            .setDesc('The model to use for embeddings. After switching, notes are embedded again with the new model in the background; search keeps using the current model until that is done.')
             .addDropdown(dropdown => dropdown
                 .addOptions(AVAILABLE_MODELS.reduce((options: Record<string, string>, model) => {
                     options[model.name] = model.description;
                     return options;
                 }, {}))
-                .setValue(this.plugin.settings.selectedModel)
+                .setValue(pendingModel ?? this.plugin.settings.selectedModel)
                 .onChange(async (newModel) => {
-                    // Get the new model info
-                    const newModelInfo = getModelInfo(newModel);
-                    if (!newModelInfo) return;
+                    if (!getModelInfo(newModel)) return;
                     
-                    // Update the model in settings
-                    this.plugin.settings.selectedModel = newModel;
-                    await this.plugin.saveSettings(true);
-                    
-                    try {
-                        // Get current model dimensions by creating a temporary model
-                        const currentModel = getModelInfo(
-                            this.plugin.settings.selectedModel
-                        )!;
-                        const currentDimensions = currentModel.dimensions;
-                        
-                        // If dimensions are different, ask for confirmation
-                        if (newModelInfo.dimensions !== currentDimensions) {
-                            const confirmModal = new ModelChangeConfirmationModal(
-                                this.plugin.app,
-                                newModel,
-                                newModelInfo.dimensions,
-                                currentDimensions,
+                    // The embeddings of the previous model stay in their own table
+                    const migration = this.plugin.migration.start(newModel);
+                    this.display();
+                    await migration;
+                    this.display();
+                }));
+        
+        if (pendingModel) {
+            modelSetting.descEl.createEl('br');
+            modelSetting.descEl.createEl('strong', {
+                text: `Re-embedding with ${pendingModel}; search uses ${this.plugin.settings.selectedModel} until it is done.`
+            });
+            modelSetting
+                .addButton(button => button
+                    .setButtonText('Resume')
+                    .setDisabled(this.plugin.migration.isRunning())
+                    .onClick(async () => {
+                        const migration = this.plugin.migration.resume();
+                        this.display();
+                        await migration;
+                        this.display();
+                    }))
+                .addButton(button => button
+                    .setButtonText('Cancel')
+                    .onClick(async () => {
+                        await this.plugin.migration.cancel();
+                        new Notice(`Staying with ${this.plugin.settings.selectedModel}`);
+                        this.display();
+                    }));
+        }
+        
+        new Setting(containerEl)
+            .setName('Re-embedding Speed')
+            .setDesc('Maximum number of notes embedded per minute after switching the model, to limit the load on the embedding provider')
+            .addText(text => text
+                .setPlaceholder('60')
+                .setValue(String(this.plugin.settings.reembedMaxPerMinute))
+                .onChange(async (value) => {
+                    const notes = parseInt(value);
+                    if (isNaN(notes) || notes < 1) return;
+                    this.plugin.settings.reembedMaxPerMinute = notes;
+                    await this.plugin.saveSettings(false);
+                }));
+
+        // Vector tables of the models used so far
+        containerEl.createEl('h4', {text: 'Embedding Tables'});
+        const tablesEl = containerEl.createDiv();
+        this.showVectorTables(tablesEl);
+
+        // Chunking settings
+        containerEl.createEl('h4', {text: 'Chunking'});
+
+        new Setting(containerEl)
+            .setName('Chunk Size')
+            .setDesc('Maximum size of a chunk in tokens (estimated as four characters each). Notes are split by headings and paragraphs into chunks of at most this size.')
+            .addText(text => text
+                .setPlaceholder('512')
+                .setValue(String(this.plugin.settings.chunkMaxTokens))
+                .onChange(async (value) => {
+                    const tokens = parseInt(value);
+                    if (isNaN(tokens) || tokens < 16) return;
+                    this.plugin.settings.chunkMaxTokens = tokens;
+                    await this.plugin.saveSettings(false);
+                }));
+
+        new Setting(containerEl)
+            .setName('Chunk Overlap')
+            .setDesc('Tokens repeated between consecutive chunks when a long paragraph has to be split')
+            .addText(text => text
+                .setPlaceholder('64')
+                .setValue(String(this.plugin.settings.chunkOverlapTokens))
+                .onChange(async (value) => {
+                    const tokens = parseInt(value);
+                    if (isNaN(tokens) || tokens < 0) return;
+                    this.plugin.settings.chunkOverlapTokens = tokens;
+                    await this.plugin.saveSettings(false);
+                }));
+
+        new Setting(containerEl)
+            .setName('Skip Frontmatter')
+            .setDesc('Leave the YAML frontmatter out of the embedded text. It is still stored with the note.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.chunkStripFrontmatter)
+                .onChange(async (value) => {
+                    this.plugin.settings.chunkStripFrontmatter = value;
+                    await this.plugin.saveSettings(false);
+                }));
+
+        new Setting(containerEl)
+            .setName('Skip Code Blocks')
+            .setDesc('Leave fenced code blocks out of the embedded text')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.chunkStripCodeBlocks)
+                .onChange(async (value) => {
+                    this.plugin.settings.chunkStripCodeBlocks = value;
+                    await this.plugin.saveSettings(false);
+                }));
+
+        // Automatic indexing settings
+        containerEl.createEl('h4', {text: 'Automatic Indexing'});
+
+        new Setting(containerEl)
+            .setName('Index Notes Automatically')
+            .setDesc('Re-embed notes when they are created or changed, move their embeddings when they are renamed and delete them when they are deleted. Run "Index vault" once to embed existing notes.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoIndex)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoIndex = value;
+                    if (!value) {
+                        this.plugin.autoIndexer.clear();
+                    }
+                    await this.plugin.saveSettings(false);
+                }));
+
+        new Setting(containerEl)
+            .setName('Indexing Delay')
+            .setDesc('Seconds a note has to stay unchanged before it is embedded, so typing does not re-embed it on every save')
+            .addText(text => text
+                .setPlaceholder('30')
+                .setValue(String(this.plugin.settings.autoIndexDelaySeconds))
+                .onChange(async (value) => {
+                    const seconds = parseInt(value);
+                    if (isNaN(seconds) || seconds < 1) return;
+                    this.plugin.settings.autoIndexDelaySeconds = seconds;
+                    await this.plugin.saveSettings(false);
+                }));
+
+        new Setting(containerEl)
+            .setName('Notes per Minute')
+            .setDesc('Maximum number of notes embedded per minute, to limit the load on the embedding provider')
+            .addText(text => text
+                .setPlaceholder('20')
+                .setValue(String(this.plugin.settings.autoIndexMaxPerMinute))
+                .onChange(async (value) => {
+                    const notes = parseInt(value);
+                    if (isNaN(notes) || notes < 1) return;
+                    this.plugin.settings.autoIndexMaxPerMinute = notes;
+                    await this.plugin.saveSettings(false);
+                }));
+
+        // Vector index settings
+        containerEl.createEl('h4', {text: 'Vector Index'});
+
+        const indexSetting = new Setting(containerEl)
+            .setName('Current Index')
+            .setDesc('Loading...')
+            .addButton(button => button
+                .setButtonText('Rebuild')
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    await new RebuildVectorIndexCommand(this.plugin).execute();
+                    button.setDisabled(false);
+                    await this.showIndexInfo(indexSetting);
+                }));
+        this.showIndexInfo(indexSetting);
+
+        new Setting(containerEl)
+            .setName('Index Type')
+            .setDesc('HNSW gives fast, accurate searches and is kept up to date as notes are added. IVFFlat builds faster and uses less memory, but is only built once the table has data and should be rebuilt after it grew a lot. Without an index every search scans the whole table. Rebuild the index after changing its options.')
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    hnsw: 'HNSW',
+                    ivfflat: 'IVFFlat',
+                    none: 'None (exact search)'
+                })
+                .setValue(this.plugin.settings.vectorIndexType)
+                .onChange(async (value) => {
+                    this.plugin.settings.vectorIndexType = value as VectorIndexType;
+                    await this.plugin.saveSettings(false);
+                }));
+
+        this.addIntegerSetting(containerEl, 'HNSW Connections (m)', 'Connections per vector in an HNSW index. Higher values improve accuracy at the cost of size and build time.', 'hnswM', 2);
+        this.addIntegerSetting(containerEl, 'HNSW Build Candidates (ef_construction)', 'Candidates considered while building an HNSW index. Higher values improve accuracy at the cost of build time.', 'hnswEfConstruction', 4);
+        this.addIntegerSetting(containerEl, 'IVFFlat Lists', 'Number of lists an IVFFlat index divides the vectors into. About the number of chunks divided by 1000 works well.', 'ivfflatLists', 1);
+        this.addIntegerSetting(containerEl, 'HNSW Search Candidates (ef_search)', 'Candidates considered per HNSW search. Higher values find more of the true nearest chunks but search slower. Takes effect immediately.', 'hnswEfSearch', 1);
+        this.addIntegerSetting(containerEl, 'IVFFlat Probes', 'Lists searched per IVFFlat search. Higher values find more of the true nearest chunks but search slower. Takes effect immediately.', 'ivfflatProbes', 1);
+
+        // Search settings
+        containerEl.createEl('h4', {text: 'Search'});
+
+        new Setting(containerEl)
+            .setName('Distance Metric')
+            .setDesc('How the distance between embeddings is measured. Cosine suits most models. Inner product gives the same results for normalized embeddings and is faster. L2 also takes the length of the embeddings into account. Stored with the vector table; changing it rebuilds the index.')
+            .addDropdown(dropdown => {
+                dropdown
+                    .addOptions({
+                        'cosine': 'Cosine',
+                        'inner-product': 'Inner product',
+                        'l2': 'Euclidean (L2)'
+                    })
+                    .setDisabled(true)
+                    .onChange(async (value) => {
+                        dropdown.setDisabled(true);
+                        try {
+                            const vectorStore = await this.createVectorStore();
+                            if (!vectorStore) return;
+                            await vectorStore.setMetric(value as DistanceMetric);
+                            new Notice(`Searching by ${value} distance`);
+                        } catch (error) {
+                            console.error('Error changing distance metric:', error);
+                            new Notice('Error changing distance metric: ' + (error as Error).message);
+                        }
+                        dropdown.setDisabled(false);
+                    });
+                this.createVectorStore()
+                    .then(vectorStore => vectorStore?.getMetric())
+                    .then(metric => {
+                        if (metric) dropdown.setValue(metric).setDisabled(false);
+                    })
+                    .catch(error => console.error('Error loading distance metric:', error));
+            });
+
+        new Setting(containerEl)
+            .setName('Minimum Score')
+            .setDesc('Leave out search results whose similarity score, between 0 and 1, is lower. 0 always shows the full number of results.')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.minSimilarityScore))
+                .onChange(async (value) => {
+                    const score = parseFloat(value);
+                    if (isNaN(score) || score < 0 || score > 1) return;
+                    this.plugin.settings.minSimilarityScore = score;
+                    await this.plugin.saveSettings(false);
+                }));
+
+        new Setting(containerEl)
+            .setName('Keyword Weight')
+            .setDesc('Share of exact keyword matches in the results of Search notes, between 0 and 1. Higher values favour notes containing the search terms, such as names and error messages; lower values favour notes with a similar meaning.')
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_KEYWORD_WEIGHT))
+                .setValue(String(this.plugin.settings.keywordWeight))
+                .onChange(async (value) => {
+                    const weight = parseFloat(value);
+                    if (isNaN(weight) || weight < 0 || weight > 1) return;
+                    this.plugin.settings.keywordWeight = weight;
+                    await this.plugin.saveSettings(false);
+                }));
+    }
+
+    /**
+     * Create a store for the vector table of the selected model
+     * @returns The store, or null if PGlite is not initialized
+     */
+    private async createVectorStore(): Promise<PGliteVectorStore | null> {
+        const provider = this.plugin.provider;
+        const modelInfo = getModelInfo(this.plugin.settings.selectedModel);
+        if (!provider || !provider.isReady() || !modelInfo) {
+            return null;
+        }
+        return new VectorTableCatalog(provider).openStore(modelInfo, getVectorStoreOptions(this.plugin.settings));
+    }
+
+    /**
+     * List the vector tables of all models, with a button to delete each
+     * @param containerEl Element to render the list into
+     */
+    private async showVectorTables(containerEl: HTMLElement) {
+        containerEl.empty();
+        const provider = this.plugin.provider;
+        const modelInfo = getModelInfo(this.plugin.settings.selectedModel);
+        if (!provider || !provider.isReady()) {
+            containerEl.createEl('p', { text: 'PGlite is not initialized yet' });
+            return;
+        }
+        try {
+            const catalog = new VectorTableCatalog(provider);
+            const tables = await catalog.listTables();
+            const activeTable = modelInfo ? await catalog.getTableName(modelInfo) : null;
+            if (tables.length === 0) {
+                containerEl.createEl('p', { text: 'No notes have been embedded yet' });
+                return;
+            }
+            
+            for (const table of tables) {
+                const isActive = table.name === activeTable;
+                const model = table.model ? `${table.model} (${table.provider})` : `${table.name} (model unknown)`;
+                const normalization = table.normalized === null ? '' : table.normalized ? ', normalized' : ', not normalized';
+                const updated = table.updatedAt ? ` Updated ${new Date(table.updatedAt).toLocaleString()}.` : '';
+                new Setting(containerEl)
+                    .setName(isActive ? `${model} — in use` : model)
+                    .setDesc(`${table.rowCount} chunks, ${table.dimensions ?? '?'} dimensions${normalization}, ${table.metric} distance, ${formatBytes(table.size)}.${updated} Table: ${table.name}`)
+                    .addButton(button => button
+                        .setButtonText('Delete')
+                        .setWarning()
+                        .setDisabled(provider.isReadOnly())
+                        .onClick(() => {
+                            if (this.plugin.indexer.isRunning()) {
+                                new Notice('Pause or cancel vault indexing before deleting a table');
+                                return;
+                            }
+                            new ConfirmModal(
+                                this.app,
+                                'Delete embeddings',
+                                `Delete the ${table.rowCount} embedded chunks of ${model}? A backup is taken first. ` +
+                                (isActive ? 'The model is in use, so its notes are embedded again by the next indexing.' : 'Switching back to the model requires indexing the vault again.'),
+                                'Delete',
                                 async (confirmed) => {
-                                    if (confirmed) {
-                                        // Update the model in settings
-                                        this.plugin.settings.selectedModel = newModel;
-                                        await this.plugin.saveSettings(true);
-                                        
-                                        // If provider is ready, recreate the vector table with new dimensions
-                                        if (this.plugin.provider && this.plugin.provider.isReady()) {
-                                            try {
-                                                // Create a new vector store with the new model dimensions
-                                                const vectorStore = new PGliteVectorStore(
-                                                    this.plugin.provider,
-                                                    newModelInfo.dimensions,
-                                                    'vector_test'                                                    
-                                                );
-                                                
-                                                // Recreate the vector table with new dimensions
-                                                await vectorStore.createTable(true); // Force recreate
-                                                
-                                                // Save the database
-                                                await vectorStore.save();
-                                                
-                                                new Notice(`Updated embedding model to ${newModel}`);
-                                            } catch (error) {
-                                                console.error('Error updating vector table:', error);
-                                                new Notice(`Error updating vector table: ${error}`);
-                                            }
-                                        } else {
-                                            new Notice(`Updated embedding model to ${newModel}`);
-                                        }
+                                    if (!confirmed) return;
+                                    try {
+                                        await catalog.dropTable(table.name);
+                                        new Notice(`Deleted the embeddings of ${model}`);
+                                    } catch (error) {
+                                        console.error('Error deleting vector table:', error);
+                                        new Notice('Error deleting vector table: ' + (error as Error).message);
                                     }
+                                    await this.showVectorTables(containerEl);
                                 }
-                            );
-                            confirmModal.open();
-                        } else {
-                            // Dimensions are the same, just update the model in settings
-                            this.plugin.settings.selectedModel = newModel;
-                            await this.plugin.saveSettings(true);
-                            new Notice(`Updated embedding model to ${newModel}`);
-                        }
-                    } catch (error) {
-                        console.error('Error getting embedding model:', error);
-                        new Notice('Error updating model: ' + (error as Error).message);
-                    }
+                            ).open();
+                        }));
+            }
+        } catch (error) {
+            console.error('Error listing vector tables:', error);
+            containerEl.createEl('p', { text: 'Error listing vector tables: ' + (error as Error).message });
+        }
+    }
+
+    /**
+     * Add a text setting for a whole number
+     * @param containerEl Element to add the setting to
+     * @param name Name of the setting
+     * @param description Description of the setting
+     * @param key Settings field holding the number
+     * @param min Smallest accepted value
+     */
+    private addIntegerSetting(
+        containerEl: HTMLElement,
+        name: string,
+        description: string,
+        key: 'hnswM' | 'hnswEfConstruction' | 'ivfflatLists' | 'hnswEfSearch' | 'ivfflatProbes',
+        min: number
+    ) {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(description)
+            .addText(text => text
+                .setValue(String(this.plugin.settings[key]))
+                .onChange(async (value) => {
+                    const number = parseInt(value);
+                    if (isNaN(number) || number < min) return;
+                    this.plugin.settings[key] = number;
+                    await this.plugin.saveSettings(false);
                 }));
     }
+
+    /**
+     * Show the type and size of the embedding index in a setting's description
+     * @param setting The setting to update
+     */
+    private async showIndexInfo(setting: Setting) {
+        try {
+            const vectorStore = await this.createVectorStore();
+            if (!vectorStore) {
+                setting.setDesc('PGlite is not initialized yet');
+                return;
+            }
+            if (!(await vectorStore.checkTableExists()).exists) {
+                setting.setDesc('The vector table does not exist yet');
+                return;
+            }
+            const index = await vectorStore.getIndexInfo();
+            if (!index) {
+                setting.setDesc('No index; searches scan the whole table');
+                return;
+            }
+            const parameters = Object.entries(index.parameters).map(([name, value]) => `${name}=${value}`).join(', ');
+            setting.setDesc(`${index.method.toUpperCase()}${parameters ? ` (${parameters})` : ''}, ${formatBytes(index.size)}`);
+        } catch (error) {
+            console.error('Error reading vector index:', error);
+            setting.setDesc('Error reading vector index: ' + (error as Error).message);
+        }
+    }
+
+    hide(): void {
+        this.clearSaveStateListener();
+    }
+
+    /**
+     * Run a database management action, report errors and refresh the tab
+     * @param description What the action does, for error messages
+     * @param action The action to run
+     */
+    private async runDatabaseAction(description: string, action: () => Promise<void>): Promise<void> {
+        try {
+            await action();
+        } catch (error) {
+            console.error(`Error ${description}:`, error);
+            new Notice(`Error ${description}: ${(error as Error).message}`);
+        }
+        this.display();
+    }
+
+    /**
+     * Describe when the database was last saved and whether it has unsaved changes
+     */
+    private describeSaveState(): string {
+        const provider = this.plugin.provider;
+        if (!provider || !provider.isReady()) {
+            return 'Database is not connected';
+        }
+        if (provider.isReadOnly()) {
+            return 'Database is open read-only and is not saved';
+        }
+
+        const lastSavedAt = provider.getLastSavedAt();
+        const saved = lastSavedAt ? lastSavedAt.toLocaleString() : 'Not saved this session';
+        return provider.isDirty() ? `${saved} (unsaved changes)` : saved;
+    }
+
+    /**
+     * Stop listening to save state changes of the provider
+     */
+    private clearSaveStateListener(): void {
+        if (this.saveStateRef && this.plugin.provider) {
+            this.plugin.provider.offref(this.saveStateRef);
+        }
+        this.saveStateRef = null;
+    }
 }
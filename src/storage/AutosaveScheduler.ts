@@ -0,0 +1,174 @@
+/**
+ * How the autosave scheduler decides when to flush
+ * - debounce: flush once writes have been quiet for the configured delay
+ * - interval: flush every delay while there are unsaved writes
+ * - manual: only flush when asked to (blur, quit, ribbon icon, close)
+ */
+export type AutosaveMode = 'debounce' | 'interval' | 'manual';
+
+/**
+ * Options for the autosave scheduler
+ */
+export interface AutosaveOptions {
+    mode: AutosaveMode;
+    delayMs: number;
+}
+
+/**
+ * Default autosave options
+ */
+export const DEFAULT_AUTOSAVE_OPTIONS: AutosaveOptions = {
+    mode: 'debounce',
+    delayMs: 5000
+};
+
+/**
+ * Schedules flushes of a dirty database
+ * Tracks whether there are unsaved writes and calls the flush callback according
+ * to the configured mode. Flushing can be suspended for bulk operations.
+ */
+export class AutosaveScheduler {
+    private writeCount: number = 0;
+    private savedCount: number = 0;
+    private suspendCount: number = 0;
+    private timer: number | null = null;
+    private flushing: Promise<void> | null = null;
+
+    /**
+     * Create a new AutosaveScheduler
+     * @param flush Callback that persists the database
+     * @param options Scheduling options
+     */
+    constructor(
+        private flush: () => Promise<void>,
+        private options: AutosaveOptions = DEFAULT_AUTOSAVE_OPTIONS
+    ) {}
+
+    /**
+     * Start the timer of interval mode
+     * Call it once the database is open; dispose() stops it.
+     */
+    start(): void {
+        if (this.options.mode === 'interval' && this.timer === null) {
+            this.timer = window.setInterval(() => this.flushIfDirty(), this.options.delayMs);
+        }
+    }
+
+    /**
+     * Whether there are writes that have not been flushed yet
+     */
+    isDirty(): boolean {
+        return this.writeCount !== this.savedCount;
+    }
+
+    /**
+     * Whether flushing is currently suspended
+     */
+    isSuspended(): boolean {
+        return this.suspendCount > 0;
+    }
+
+    /**
+     * Record that the database has unsaved writes
+     */
+    markDirty(): void {
+        this.writeCount++;
+
+        if (this.options.mode === 'debounce') {
+            if (this.timer !== null) {
+                window.clearTimeout(this.timer);
+            }
+            this.timer = window.setTimeout(() => {
+                this.timer = null;
+                this.flushIfDirty();
+            }, this.options.delayMs);
+        }
+    }
+
+    /**
+     * Take a snapshot of the write counter before persisting
+     * @returns Snapshot to pass to markSaved() once the save completes
+     */
+    getWriteCount(): number {
+        return this.writeCount;
+    }
+
+    /**
+     * Record that the database was persisted
+     * Writes made while the save was running keep the database dirty
+     * @param writeCount Snapshot taken with getWriteCount() before saving
+     */
+    markSaved(writeCount: number): void {
+        this.savedCount = writeCount;
+    }
+
+    /**
+     * Suspend flushing until resume() is called
+     * Calls nest, so every suspend() needs a matching resume()
+     */
+    suspend(): void {
+        this.suspendCount++;
+    }
+
+    /**
+     * Resume flushing and flush any writes made while suspended
+     */
+    async resume(): Promise<void> {
+        if (this.suspendCount === 0) return;
+        this.suspendCount--;
+
+        if (this.suspendCount === 0 && this.isDirty() && this.options.mode !== 'manual') {
+            await this.flushIfDirty();
+        }
+    }
+
+    /**
+     * Flush now if there are unsaved writes and flushing is not suspended
+     * @param force Flush even while suspended, e.g. before the app quits
+     */
+    async flushIfDirty(force: boolean = false): Promise<void> {
+        if (!this.isDirty() || (this.isSuspended() && !force)) return;
+
+        // Every waiter wakes up when a flush ends, so check again in case another one started
+        while (this.flushing) {
+            await this.flushing;
+        }
+        if (!this.isDirty()) return;
+
+        try {
+            await this.flushNow();
+        } catch (error) {
+            console.error('Autosave failed:', error);
+        }
+    }
+
+    /**
+     * Flush now, also without unsaved writes or while suspended
+     * Waits for a running flush first, so two flushes never run at the same time.
+     * @throws The error of the flush callback
+     */
+    async flushNow(): Promise<void> {
+        while (this.flushing) {
+            await this.flushing;
+        }
+
+        const flush = this.flush();
+        this.flushing = flush
+            .catch(() => {})
+            .then(() => {
+                this.flushing = null;
+            });
+        await flush;
+    }
+
+    /**
+     * Stop all timers
+     */
+    dispose(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            window.clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+}
@@ -0,0 +1,199 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+
+/**
+ * Options for database backups
+ */
+export interface BackupOptions {
+    daily: boolean;
+    retention: number;
+}
+
+/**
+ * Default backup options
+ */
+export const DEFAULT_BACKUP_OPTIONS: BackupOptions = {
+    daily: true,
+    retention: 7
+};
+
+/**
+ * A snapshot in the backups folder
+ */
+export interface BackupInfo {
+    path: string;
+    createdAt: Date;
+    reason: string;
+    size: number;
+}
+
+// <database>-<yyyymmdd>-<hhmmss>-<reason>.tgz
+const BACKUP_NAME_PATTERN = /^(.+)-(\d{8})-(\d{6})-([a-z0-9-]+)\.tgz$/;
+
+/**
+ * Keeps timestamped snapshots of a database in a backups folder
+ * Snapshots are gzipped data directory tarballs as written by
+ * `dumpDataDir('gzip')`, so each one can be loaded on its own. Snapshots of
+ * an encrypted database are encrypted by the provider before they get here.
+ */
+export class BackupManager {
+    private backupsPath: string;
+
+    /**
+     * Create a new BackupManager
+     * @param adapter Vault data adapter
+     * @param pluginDir Plugin directory that holds the backups folder
+     * @param dbName Database name, used as the snapshot file prefix
+     * @param options Backup options
+     */
+    constructor(
+        private adapter: DataAdapter,
+        pluginDir: string,
+        private dbName: string,
+        private options: BackupOptions = DEFAULT_BACKUP_OPTIONS
+    ) {
+        this.backupsPath = normalizePath(`${pluginDir}/backups`);
+    }
+
+    /**
+     * Write a snapshot and prune old ones
+     * @param snapshot Gzipped data directory tarball
+     * @param reason Short kebab-case reason stored in the file name
+     * @returns The created snapshot
+     */
+    async createBackup(snapshot: Blob, reason: string): Promise<BackupInfo> {
+        if (!await this.adapter.exists(this.backupsPath)) {
+            await this.adapter.mkdir(this.backupsPath);
+        }
+
+        const createdAt = new Date();
+        const safeReason = reason.toLowerCase().replace(/[^a-z0-9-]+/g, '-');
+        const backupPath = normalizePath(
+            `${this.backupsPath}/${this.dbName}-${formatTimestamp(createdAt)}-${safeReason}.tgz`
+        );
+
+        // Write through a temp file so an interrupted backup never looks complete
+        const tempPath = `${backupPath}.tmp`;
+        await this.adapter.writeBinary(tempPath, await snapshot.arrayBuffer());
+        if (await this.adapter.exists(backupPath)) {
+            await this.adapter.remove(backupPath);
+        }
+        await this.adapter.rename(tempPath, backupPath);
+        console.log('Database backup written to:', backupPath);
+
+        await this.prune();
+        return { path: backupPath, createdAt, reason: safeReason, size: snapshot.size };
+    }
+
+    /**
+     * Check if a daily backup is due
+     * @returns True if daily backups are enabled and none was taken today
+     */
+    async isDailyBackupDue(): Promise<boolean> {
+        if (!this.options.daily) {
+            return false;
+        }
+        const today = formatTimestamp(new Date()).substring(0, 8);
+        const backups = await this.listBackups();
+        return !backups.some(backup => formatTimestamp(backup.createdAt).substring(0, 8) === today);
+    }
+
+    /**
+     * List the snapshots of this database, newest first
+     */
+    async listBackups(): Promise<BackupInfo[]> {
+        if (!await this.adapter.exists(this.backupsPath)) {
+            return [];
+        }
+
+        const listed = await this.adapter.list(this.backupsPath);
+        const backups: BackupInfo[] = [];
+        for (const filePath of listed.files) {
+            const match = filePath.substring(filePath.lastIndexOf('/') + 1).match(BACKUP_NAME_PATTERN);
+            if (!match || match[1] !== this.dbName) continue;
+
+            const stat = await this.adapter.stat(filePath);
+            backups.push({
+                path: filePath,
+                createdAt: parseTimestamp(match[2], match[3]),
+                reason: match[4],
+                size: stat?.size ?? 0
+            });
+        }
+
+        return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    }
+
+    /**
+     * Read a snapshot
+     * @param backupPath Path of the snapshot
+     * @returns The gzipped data directory tarball
+     */
+    async readBackup(backupPath: string): Promise<Blob> {
+        const data = await this.adapter.readBinary(backupPath);
+        return new Blob([data], { type: 'application/x-gzip' });
+    }
+
+    /**
+     * Replace the contents of every snapshot of this database, e.g. to encrypt them
+     * @param rewrite Function returning the new contents of a snapshot
+     */
+    async rewriteBackups(rewrite: (snapshot: ArrayBuffer) => Promise<ArrayBuffer>): Promise<void> {
+        for (const backup of await this.listBackups()) {
+            const rewritten = await rewrite(await this.adapter.readBinary(backup.path));
+            const tempPath = `${backup.path}.tmp`;
+            await this.adapter.writeBinary(tempPath, rewritten);
+            await this.adapter.remove(backup.path);
+            await this.adapter.rename(tempPath, backup.path);
+        }
+    }
+
+    /**
+     * Move all snapshots of this database to another database name
+     * @param newName The new database name
+     */
+    async renameBackups(newName: string): Promise<void> {
+        for (const backup of await this.listBackups()) {
+            const fileName = backup.path.substring(backup.path.lastIndexOf('/') + 1);
+            const renamed = newName + fileName.substring(this.dbName.length);
+            await this.adapter.rename(backup.path, normalizePath(`${this.backupsPath}/${renamed}`));
+        }
+        this.dbName = newName;
+    }
+
+    /**
+     * Delete all snapshots of this database
+     */
+    async deleteBackups(): Promise<void> {
+        for (const backup of await this.listBackups()) {
+            await this.adapter.remove(backup.path);
+        }
+    }
+
+    /**
+     * Delete all but the newest snapshots, as configured by the retention option
+     */
+    async prune(): Promise<void> {
+        const backups = await this.listBackups();
+        for (const backup of backups.slice(Math.max(this.options.retention, 1))) {
+            await this.adapter.remove(backup.path);
+            console.log('Removed old database backup:', backup.path);
+        }
+    }
+}
+
+function formatTimestamp(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+        `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+function parseTimestamp(datePart: string, timePart: string): Date {
+    return new Date(
+        parseInt(datePart.substring(0, 4)),
+        parseInt(datePart.substring(4, 6)) - 1,
+        parseInt(datePart.substring(6, 8)),
+        parseInt(timePart.substring(0, 2)),
+        parseInt(timePart.substring(2, 4)),
+        parseInt(timePart.substring(4, 6))
+    );
+}
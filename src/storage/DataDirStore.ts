@@ -0,0 +1,585 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { promisify } from 'util';
+import { gzip, gunzip } from 'zlib';
+import { sha256Hex } from '../utils/HashHelpers';
+import { DatabaseCipher, isEncrypted } from './DatabaseEncryption';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Tar archives are made of 512 byte blocks
+const TAR_BLOCK_SIZE = 512;
+
+// PGlite writes access and change times into the header (see normalizeHeader)
+const TAR_TIMES_OFFSET = 476;
+const TAR_TIMES_END = 500;
+const TAR_CHECKSUM_OFFSET = 148;
+const TAR_CHECKSUM_END = 156;
+
+// Large files are split so that a changed page only rewrites its own segment
+const MAX_SEGMENT_SIZE = 1024 * 1024;
+
+const MANIFEST_FORMAT = 1;
+
+/**
+ * A segment of the data directory tarball
+ */
+export interface DataDirSegment {
+    hash: string;
+    size: number;
+}
+
+/**
+ * Manifest listing the segments that make up the data directory, in order
+ */
+export interface DataDirManifest {
+    format: number;
+    savedAt: string;
+    segments: DataDirSegment[];
+}
+
+/**
+ * Which saved copy of the data directory to read
+ * The previous copy is the last good save before the current one.
+ */
+type ManifestCopy = 'current' | 'previous';
+
+/**
+ * Thrown when the saved data directory fails verification
+ */
+export class DataDirCorruptionError extends Error {
+    /**
+     * Create a new DataDirCorruptionError
+     * @param message Description of what failed verification
+     * @param hasPreviousCopy Whether a previous good copy is available to restore
+     */
+    constructor(message: string, public readonly hasPreviousCopy: boolean) {
+        super(message);
+        this.name = 'DataDirCorruptionError';
+    }
+}
+
+/**
+ * Thrown when the saved data directory changed on disk since it was loaded,
+ * e.g. because another device saved it in a synced vault
+ */
+export class DataDirConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DataDirConflictError';
+    }
+}
+
+/**
+ * Incremental on-disk store for the PGlite data directory
+ *
+ * The uncompressed tarball from `dumpDataDir('none')` is split along its tar entries
+ * (and every MAX_SEGMENT_SIZE bytes within large files). Each segment is gzipped and
+ * stored under its SHA-256 hash, so a save only writes segments that changed since
+ * the last one. A manifest lists the segments in order; loading concatenates them
+ * back into a tarball that is passed to PGlite's `loadDataDir`. Segments no longer
+ * referenced by the current or previous manifest are removed by compaction.
+ *
+ * Saves are atomic: segments and the manifest are written to temp files, verified
+ * and renamed into place. The manifest has a `.sha256` checksum sidecar, and the
+ * manifest it replaces is kept as the previous good copy.
+ *
+ * A save refuses to replace a manifest that changed since this store last loaded or
+ * saved it, so a copy synced in from another device is never silently overwritten.
+ *
+ * With a cipher set, segments are encrypted after compression. Segments are read
+ * as encrypted or plain by their header, so a store can hold both while it is
+ * being re-encrypted.
+ */
+export class DataDirStore {
+    private segmentsPath: string;
+    private knownHashes: Set<string> | null = null;
+    // Checksum of the manifest last loaded or saved; undefined until either happened
+    private knownChecksum: string | null | undefined = undefined;
+    private cipher: DatabaseCipher | null = null;
+
+    /**
+     * Create a new DataDirStore
+     * @param adapter Vault data adapter
+     * @param dirPath Directory holding the manifest and segments
+     */
+    constructor(private adapter: DataAdapter, private dirPath: string) {
+        this.segmentsPath = normalizePath(`${dirPath}/segments`);
+    }
+
+    /**
+     * Set the cipher used to encrypt segments written from now on
+     * @param cipher Cipher of the database, or null to write plain segments
+     */
+    setCipher(cipher: DatabaseCipher | null): void {
+        this.cipher = cipher;
+    }
+
+    /**
+     * Rewrite every segment the current and previous copies reference with another cipher
+     * Used to encrypt or decrypt a database, or to replace its data key.
+     * @param cipher Cipher to encrypt with, or null to write plain segments
+     */
+    async reencrypt(cipher: DatabaseCipher | null): Promise<void> {
+        const segments = new Map<string, DataDirSegment>();
+        for (const copy of ['current', 'previous'] as ManifestCopy[]) {
+            const manifest = await this.readManifestOrNull(copy);
+            manifest?.segments.forEach(segment => segments.set(segment.hash, segment));
+        }
+
+        for (const segment of segments.values()) {
+            // Read with the old cipher, which also verifies the segment
+            const bytes = await this.readSegment(segment);
+            await this.writeSegment(segment.hash, bytes, cipher);
+        }
+        this.cipher = cipher;
+        console.log(`Rewrote data directory: ${segments.size} segments ${cipher ? 'encrypted' : 'decrypted'}`);
+    }
+
+    /**
+     * Check if a saved data directory exists
+     */
+    async exists(): Promise<boolean> {
+        return this.adapter.exists(this.getManifestPath('current'));
+    }
+
+    /**
+     * Check if a previous good copy of the data directory exists
+     */
+    async hasPreviousCopy(): Promise<boolean> {
+        return this.adapter.exists(this.getManifestPath('previous'));
+    }
+
+    /**
+     * Read the manifest of the saved data directory
+     * @param copy Which saved copy to read
+     * @returns The manifest, or null if nothing was saved yet
+     * @throws DataDirCorruptionError if the manifest fails its checksum
+     */
+    async readManifest(copy: ManifestCopy = 'current'): Promise<DataDirManifest | null> {
+        const manifestPath = this.getManifestPath(copy);
+        if (!await this.adapter.exists(manifestPath)) {
+            return null;
+        }
+
+        const contents = await this.adapter.read(manifestPath);
+        const checksumPath = getChecksumPath(manifestPath);
+        // Manifests written before checksums were introduced have no sidecar
+        if (await this.adapter.exists(checksumPath)) {
+            const expected = (await this.adapter.read(checksumPath)).trim();
+            if (await sha256Hex(contents) !== expected) {
+                throw await this.corruption(`Checksum mismatch for ${manifestPath}`, copy);
+            }
+        }
+
+        let manifest: DataDirManifest;
+        try {
+            manifest = JSON.parse(contents) as DataDirManifest;
+        } catch (error) {
+            throw await this.corruption(`Unreadable manifest ${manifestPath}: ${error}`, copy);
+        }
+        if (manifest.format !== MANIFEST_FORMAT) {
+            throw new Error(`Unsupported data directory format: ${manifest.format}`);
+        }
+        return manifest;
+    }
+
+    /**
+     * Get the size on disk of the saved data directory
+     * Includes the previous copy and segments not yet compacted.
+     * @returns Total size of all files in bytes, 0 if nothing was saved yet
+     */
+    async getDiskUsage(): Promise<number> {
+        if (!await this.adapter.exists(this.dirPath)) {
+            return 0;
+        }
+
+        let total = 0;
+        const folders = [this.dirPath];
+        while (folders.length > 0) {
+            const listed = await this.adapter.list(folders.pop() as string);
+            for (const file of listed.files) {
+                total += (await this.adapter.stat(file))?.size ?? 0;
+            }
+            folders.push(...listed.folders);
+        }
+        return total;
+    }
+
+    /**
+     * Load the saved data directory
+     * @returns The data directory as an uncompressed tarball, or null if nothing was saved yet
+     * @throws DataDirCorruptionError if the manifest or any segment fails verification
+     */
+    async load(): Promise<Blob | null> {
+        const checksum = await this.readChecksum();
+        const manifest = await this.readManifest();
+        if (!manifest) {
+            // A save interrupted between rotating and renaming leaves only the previous copy
+            if (await this.hasPreviousCopy()) {
+                throw new DataDirCorruptionError('The current copy of the database is missing', true);
+            }
+            this.knownChecksum = null;
+            return null;
+        }
+
+        const parts: Uint8Array[] = [];
+        for (const segment of manifest.segments) {
+            parts.push(await this.readSegment(segment));
+        }
+        // End of archive marker
+        parts.push(new Uint8Array(TAR_BLOCK_SIZE * 2));
+
+        this.knownHashes = new Set(manifest.segments.map(segment => segment.hash));
+        this.knownChecksum = checksum;
+        return new Blob(parts, { type: 'application/x-tar' });
+    }
+
+    /**
+     * Save a data directory, writing only segments that are not stored yet
+     * @param tarball Uncompressed tarball from `dumpDataDir('none')`
+     * @throws DataDirConflictError if the saved copy changed on disk since it was loaded
+     */
+    async save(tarball: Blob): Promise<void> {
+        if (this.knownChecksum !== undefined && await this.readChecksum() !== this.knownChecksum) {
+            throw new DataDirConflictError(`${this.dirPath} was changed on disk since it was loaded`);
+        }
+
+        if (!await this.adapter.exists(this.segmentsPath)) {
+            await this.adapter.mkdir(this.segmentsPath);
+        }
+        if (!this.knownHashes) {
+            this.knownHashes = new Set(
+                (await this.readManifestOrNull('current'))?.segments.map(segment => segment.hash) ?? []
+            );
+        }
+
+        const segments: DataDirSegment[] = [];
+        let written = 0;
+
+        for (const bytes of splitTarball(new Uint8Array(await tarball.arrayBuffer()))) {
+            const hash = await sha256Hex(bytes);
+            if (!this.knownHashes.has(hash)) {
+                await this.writeSegment(hash, bytes);
+                this.knownHashes.add(hash);
+                written++;
+            }
+            segments.push({ hash, size: bytes.length });
+        }
+
+        const manifest: DataDirManifest = {
+            format: MANIFEST_FORMAT,
+            savedAt: new Date().toISOString(),
+            segments
+        };
+        const outdated = await this.readManifestOrNull('previous');
+        this.knownChecksum = await this.writeManifest(JSON.stringify(manifest));
+        console.log(`Saved data directory: ${written} of ${segments.length} segments written`);
+
+        // Drop segments only the manifest that was rotated out used
+        if (outdated) {
+            const referenced = await this.getReferencedHashes();
+            await this.removeSegments(
+                outdated.segments.map(segment => segment.hash).filter(hash => !referenced.has(hash))
+            );
+        }
+    }
+
+    /**
+     * Replace the current copy with the previous good copy
+     * @throws DataDirCorruptionError if the previous copy fails verification too
+     */
+    async restorePrevious(): Promise<void> {
+        const previous = await this.readManifest('previous');
+        if (!previous) {
+            throw new Error('No previous copy of the database to restore');
+        }
+        for (const segment of previous.segments) {
+            await this.readSegment(segment, 'previous');
+        }
+
+        const currentPath = this.getManifestPath('current');
+        const previousPath = this.getManifestPath('previous');
+        await this.replaceFile(previousPath, currentPath);
+        await this.replaceFile(getChecksumPath(previousPath), getChecksumPath(currentPath));
+        this.knownHashes = null;
+        this.knownChecksum = undefined;
+        console.log('Restored previous copy of the data directory');
+    }
+
+    /**
+     * Move the whole data directory aside so a fresh database can be created
+     * Nothing is deleted; the old directory keeps a `.corrupt-<timestamp>` suffix.
+     * @returns Path the data directory was moved to
+     */
+    async moveAside(): Promise<string> {
+        const asidePath = `${this.dirPath}.corrupt-${Date.now()}`;
+        if (await this.adapter.exists(this.dirPath)) {
+            await this.adapter.rename(this.dirPath, asidePath);
+        }
+        this.knownHashes = null;
+        this.knownChecksum = undefined;
+        console.log('Moved data directory aside to:', asidePath);
+        return asidePath;
+    }
+
+    /**
+     * Remove every stored segment neither the current nor the previous manifest references
+     * Cleans up after interrupted saves
+     */
+    async compact(): Promise<void> {
+        if (!await this.exists() || !await this.adapter.exists(this.segmentsPath)) {
+            return;
+        }
+
+        const referenced = await this.getReferencedHashes();
+        const listed = await this.adapter.list(this.segmentsPath);
+        const orphaned = listed.files.filter(file => {
+            const name = file.substring(file.lastIndexOf('/') + 1);
+            return !name.endsWith('.gz') || !referenced.has(name.slice(0, -'.gz'.length));
+        });
+        for (const file of orphaned) {
+            await this.adapter.remove(file);
+        }
+        if (orphaned.length > 0) {
+            console.log(`Compacted data directory: removed ${orphaned.length} orphaned files`);
+        }
+    }
+
+    /**
+     * Write the manifest and its checksum atomically, keeping the current one as the previous copy
+     * @param contents Serialized manifest
+     * @returns Checksum of the written manifest
+     */
+    private async writeManifest(contents: string): Promise<string> {
+        const currentPath = this.getManifestPath('current');
+        const previousPath = this.getManifestPath('previous');
+        const tempPath = `${currentPath}.tmp`;
+        const checksum = await sha256Hex(contents);
+
+        await this.adapter.write(tempPath, contents);
+        await this.adapter.write(getChecksumPath(tempPath), checksum);
+
+        // Read the temp file back before it replaces anything
+        if (await sha256Hex(await this.adapter.read(tempPath)) !== checksum) {
+            throw new Error(`Verification of ${tempPath} failed`);
+        }
+
+        if (await this.adapter.exists(currentPath)) {
+            await this.replaceFile(currentPath, previousPath);
+            if (await this.adapter.exists(getChecksumPath(currentPath))) {
+                await this.replaceFile(getChecksumPath(currentPath), getChecksumPath(previousPath));
+            }
+        }
+        await this.replaceFile(tempPath, currentPath);
+        await this.replaceFile(getChecksumPath(tempPath), getChecksumPath(currentPath));
+        return checksum;
+    }
+
+    /**
+     * Read the checksum of the current manifest as it is on disk
+     * @returns The checksum, or null if nothing was saved yet
+     */
+    private async readChecksum(): Promise<string | null> {
+        const manifestPath = this.getManifestPath('current');
+        if (!await this.adapter.exists(manifestPath)) {
+            return null;
+        }
+        const checksumPath = getChecksumPath(manifestPath);
+        if (await this.adapter.exists(checksumPath)) {
+            return (await this.adapter.read(checksumPath)).trim();
+        }
+        return sha256Hex(await this.adapter.read(manifestPath));
+    }
+
+    /**
+     * Write a file through a temp file so readers never see a partial write
+     * @param filePath Destination path
+     * @param data File contents
+     */
+    private async writeAtomically(filePath: string, data: ArrayBuffer): Promise<void> {
+        const tempPath = `${filePath}.tmp`;
+        await this.adapter.writeBinary(tempPath, data);
+        await this.replaceFile(tempPath, filePath);
+    }
+
+    /**
+     * Rename a file over another one
+     * @param from Source path
+     * @param to Destination path, replaced if it exists
+     */
+    private async replaceFile(from: string, to: string): Promise<void> {
+        if (await this.adapter.exists(to)) {
+            await this.adapter.remove(to);
+        }
+        await this.adapter.rename(from, to);
+    }
+
+    /**
+     * Read, decompress and verify a segment
+     * @param segment The segment to read
+     * @param copy Which saved copy the segment belongs to, for error reporting
+     */
+    private async readSegment(segment: DataDirSegment, copy: ManifestCopy = 'current'): Promise<Uint8Array> {
+        const segmentPath = this.getSegmentPath(segment.hash);
+        if (!await this.adapter.exists(segmentPath)) {
+            throw await this.corruption(`Data directory segment ${segment.hash} is missing`, copy);
+        }
+
+        let bytes: Uint8Array;
+        try {
+            let compressed = new Uint8Array(await this.adapter.readBinary(segmentPath));
+            if (isEncrypted(compressed)) {
+                if (!this.cipher) {
+                    throw new Error('the segment is encrypted, but no passphrase was given');
+                }
+                compressed = await this.cipher.decrypt(compressed);
+            }
+            bytes = new Uint8Array(await gunzipAsync(compressed));
+        } catch (error) {
+            throw await this.corruption(`Data directory segment ${segment.hash} is unreadable: ${error}`, copy);
+        }
+        if (bytes.length !== segment.size || await sha256Hex(bytes) !== segment.hash) {
+            throw await this.corruption(`Data directory segment ${segment.hash} is corrupt`, copy);
+        }
+        return bytes;
+    }
+
+    /**
+     * Compress, encrypt if there is a cipher, and write a segment
+     * @param hash Hash of the uncompressed segment
+     * @param bytes Uncompressed segment
+     * @param cipher Cipher to encrypt with, defaults to the store's cipher
+     */
+    private async writeSegment(hash: string, bytes: Uint8Array, cipher: DatabaseCipher | null = this.cipher): Promise<void> {
+        let data: Uint8Array = await gzipAsync(bytes);
+        if (cipher) {
+            data = await cipher.encrypt(data);
+        }
+        await this.writeAtomically(this.getSegmentPath(hash), toArrayBuffer(data));
+    }
+
+    /**
+     * Delete segments from disk
+     * @param hashes Hashes of the segments to delete
+     */
+    private async removeSegments(hashes: string[]): Promise<void> {
+        for (const hash of hashes) {
+            const segmentPath = this.getSegmentPath(hash);
+            if (await this.adapter.exists(segmentPath)) {
+                await this.adapter.remove(segmentPath);
+            }
+            this.knownHashes?.delete(hash);
+        }
+    }
+
+    /**
+     * Collect the hashes referenced by the current and previous manifests
+     */
+    private async getReferencedHashes(): Promise<Set<string>> {
+        const referenced = new Set<string>();
+        for (const copy of ['current', 'previous'] as ManifestCopy[]) {
+            const manifest = await this.readManifestOrNull(copy);
+            manifest?.segments.forEach(segment => referenced.add(segment.hash));
+        }
+        return referenced;
+    }
+
+    /**
+     * Read a manifest, treating a corrupt one as missing
+     * @param copy Which saved copy to read
+     */
+    private async readManifestOrNull(copy: ManifestCopy): Promise<DataDirManifest | null> {
+        try {
+            return await this.readManifest(copy);
+        } catch (error) {
+            console.warn(`Ignoring unreadable ${copy} manifest:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Create a corruption error for the given copy
+     * @param message Description of what failed verification
+     * @param copy Which saved copy failed
+     */
+    private async corruption(message: string, copy: ManifestCopy): Promise<DataDirCorruptionError> {
+        const hasPreviousCopy = copy === 'current' && await this.hasPreviousCopy();
+        return new DataDirCorruptionError(message, hasPreviousCopy);
+    }
+
+    private getManifestPath(copy: ManifestCopy): string {
+        const fileName = copy === 'current' ? 'manifest.json' : 'manifest.prev.json';
+        return normalizePath(`${this.dirPath}/${fileName}`);
+    }
+
+    private getSegmentPath(hash: string): string {
+        return normalizePath(`${this.segmentsPath}/${hash}.gz`);
+    }
+}
+
+/**
+ * Split a tarball into segments along its entries
+ * Headers are normalized in place first. Each entry (header, data and padding)
+ * starts a new segment, and entries larger than MAX_SEGMENT_SIZE are split
+ * further at fixed offsets from the entry start.
+ * @param tarball Uncompressed tarball
+ * @returns Segments in archive order, without the end of archive marker
+ */
+function splitTarball(tarball: Uint8Array): Uint8Array[] {
+    const segments: Uint8Array[] = [];
+    let offset = 0;
+
+    while (offset + TAR_BLOCK_SIZE <= tarball.length) {
+        const header = tarball.subarray(offset, offset + TAR_BLOCK_SIZE);
+        if (isZeroBlock(header)) {
+            break;
+        }
+
+        normalizeHeader(header);
+        const size = parseInt(new TextDecoder().decode(header.subarray(124, 136)).replace(/\0/g, '').trim() || '0', 8);
+        const entryLength = TAR_BLOCK_SIZE + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+        for (let start = 0; start < entryLength; start += MAX_SEGMENT_SIZE) {
+            const end = Math.min(start + MAX_SEGMENT_SIZE, entryLength);
+            segments.push(tarball.subarray(offset + start, offset + end));
+        }
+        offset += entryLength;
+    }
+
+    return segments;
+}
+
+/**
+ * Clear the access and change times of a tar header and fix up its checksum
+ * These change on every dump even for untouched files, which would otherwise
+ * make every segment look modified.
+ * @param header A 512 byte tar header, modified in place
+ */
+function normalizeHeader(header: Uint8Array): void {
+    header.fill(0, TAR_TIMES_OFFSET, TAR_TIMES_END);
+
+    // The checksum is the byte sum of the header with the checksum field read as spaces
+    header.fill(0x20, TAR_CHECKSUM_OFFSET, TAR_CHECKSUM_END);
+    let checksum = 0;
+    for (let i = 0; i < header.length; i++) {
+        checksum += header[i];
+    }
+    const encoded = new TextEncoder().encode(checksum.toString(8).padStart(6, '0') + '\0 ');
+    header.set(encoded, TAR_CHECKSUM_OFFSET);
+}
+
+function getChecksumPath(filePath: string): string {
+    return `${filePath}.sha256`;
+}
+
+function isZeroBlock(block: Uint8Array): boolean {
+    for (let i = 0; i < block.length; i++) {
+        if (block[i] !== 0) return false;
+    }
+    return true;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
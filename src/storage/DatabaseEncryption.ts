@@ -0,0 +1,224 @@
+import { DataAdapter, arrayBufferToBase64, base64ToArrayBuffer } from 'obsidian';
+
+const KEY_FILE_FORMAT = 1;
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+// Encrypted data starts with "PGLE" and a format version, followed by the IV and ciphertext
+const MAGIC = new Uint8Array([0x50, 0x47, 0x4c, 0x45]);
+const CIPHERTEXT_FORMAT = 1;
+const HEADER_LENGTH = MAGIC.length + 1 + IV_LENGTH;
+
+/**
+ * Contents of a key file
+ * The data key is wrapped with a key derived from the passphrase, so changing the
+ * passphrase only rewrites this file.
+ */
+export interface EncryptionKeyFile {
+    format: number;
+    kdf: {
+        name: 'PBKDF2';
+        hash: 'SHA-256';
+        iterations: number;
+        salt: string;
+    };
+    iv: string;
+    wrappedKey: string;
+}
+
+/**
+ * Thrown when opening an encrypted database without a passphrase
+ */
+export class PassphraseRequiredError extends Error {
+    /**
+     * Create a new PassphraseRequiredError
+     * @param databaseName Name of the encrypted database
+     */
+    constructor(public readonly databaseName: string) {
+        super(`The database "${databaseName}" is encrypted`);
+        this.name = 'PassphraseRequiredError';
+    }
+}
+
+/**
+ * Thrown when a passphrase does not unlock the key file
+ */
+export class WrongPassphraseError extends Error {
+    constructor() {
+        super('Wrong passphrase');
+        this.name = 'WrongPassphraseError';
+    }
+}
+
+/**
+ * AES-GCM encryption with the data key of a database
+ */
+export class DatabaseCipher {
+    private constructor(private key: CryptoKey) {}
+
+    /**
+     * Create a cipher with a new random data key
+     */
+    static async generate(): Promise<DatabaseCipher> {
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+        return new DatabaseCipher(key);
+    }
+
+    /**
+     * Unwrap the data key of a key file
+     * @param keyFile The key file
+     * @param passphrase Passphrase the key was wrapped with
+     * @throws WrongPassphraseError if the passphrase does not unlock the key
+     */
+    static async unlock(keyFile: EncryptionKeyFile, passphrase: string): Promise<DatabaseCipher> {
+        if (keyFile.format !== KEY_FILE_FORMAT) {
+            throw new Error(`Unsupported key file format: ${keyFile.format}`);
+        }
+        const wrappingKey = await deriveWrappingKey(
+            passphrase,
+            new Uint8Array(base64ToArrayBuffer(keyFile.kdf.salt)),
+            keyFile.kdf.iterations
+        );
+        try {
+            const key = await crypto.subtle.unwrapKey(
+                'raw',
+                base64ToArrayBuffer(keyFile.wrappedKey),
+                wrappingKey,
+                { name: 'AES-GCM', iv: new Uint8Array(base64ToArrayBuffer(keyFile.iv)) },
+                { name: 'AES-GCM', length: 256 },
+                true,
+                ['encrypt', 'decrypt']
+            );
+            return new DatabaseCipher(key);
+        } catch (error) {
+            // AES-GCM authentication fails for any passphrase but the right one
+            throw new WrongPassphraseError();
+        }
+    }
+
+    /**
+     * Wrap the data key with a passphrase
+     * @param passphrase Passphrase to wrap the key with
+     * @returns Key file contents
+     */
+    async wrap(passphrase: string): Promise<EncryptionKeyFile> {
+        const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+        const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+        const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+        const wrappedKey = await crypto.subtle.wrapKey('raw', this.key, wrappingKey, { name: 'AES-GCM', iv });
+        return {
+            format: KEY_FILE_FORMAT,
+            kdf: {
+                name: 'PBKDF2',
+                hash: 'SHA-256',
+                iterations: PBKDF2_ITERATIONS,
+                salt: arrayBufferToBase64(salt.buffer)
+            },
+            iv: arrayBufferToBase64(iv.buffer),
+            wrappedKey: arrayBufferToBase64(wrappedKey)
+        };
+    }
+
+    /**
+     * Encrypt data with a random IV
+     * @param data Plaintext
+     * @returns Header and ciphertext
+     */
+    async encrypt(data: Uint8Array): Promise<Uint8Array> {
+        const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+        const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.key, data));
+
+        const result = new Uint8Array(HEADER_LENGTH + ciphertext.length);
+        result.set(MAGIC, 0);
+        result[MAGIC.length] = CIPHERTEXT_FORMAT;
+        result.set(iv, MAGIC.length + 1);
+        result.set(ciphertext, HEADER_LENGTH);
+        return result;
+    }
+
+    /**
+     * Decrypt data written by encrypt()
+     * @param data Header and ciphertext
+     * @returns Plaintext
+     * @throws Error if the data is not encrypted or fails authentication
+     */
+    async decrypt(data: Uint8Array): Promise<Uint8Array> {
+        if (!isEncrypted(data)) {
+            throw new Error('Data is not encrypted');
+        }
+        if (data[MAGIC.length] !== CIPHERTEXT_FORMAT) {
+            throw new Error(`Unsupported encryption format: ${data[MAGIC.length]}`);
+        }
+        const iv = data.subarray(MAGIC.length + 1, HEADER_LENGTH);
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, this.key, data.subarray(HEADER_LENGTH));
+        return new Uint8Array(plaintext);
+    }
+}
+
+/**
+ * Check if data was written by DatabaseCipher.encrypt()
+ * Gzip data starts with 0x1f 0x8b and tar data with a file name, so neither matches.
+ * @param data Data to check
+ */
+export function isEncrypted(data: Uint8Array): boolean {
+    return data.length >= HEADER_LENGTH && MAGIC.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Read a key file
+ * @param adapter Vault data adapter
+ * @param keyPath Path of the key file
+ * @returns The key file, or null if the database is not encrypted
+ */
+export async function readKeyFile(adapter: DataAdapter, keyPath: string): Promise<EncryptionKeyFile | null> {
+    if (!await adapter.exists(keyPath)) {
+        return null;
+    }
+    try {
+        return JSON.parse(await adapter.read(keyPath)) as EncryptionKeyFile;
+    } catch (error) {
+        throw new Error(`Failed to read key file ${keyPath}: ${error}`);
+    }
+}
+
+/**
+ * Write a key file through a temp file, so an interrupted write keeps the old key
+ * @param adapter Vault data adapter
+ * @param keyPath Path of the key file
+ * @param keyFile Key file contents
+ */
+export async function writeKeyFile(adapter: DataAdapter, keyPath: string, keyFile: EncryptionKeyFile): Promise<void> {
+    const tempPath = `${keyPath}.tmp`;
+    await adapter.write(tempPath, JSON.stringify(keyFile, null, 2));
+    if (await adapter.exists(keyPath)) {
+        await adapter.remove(keyPath);
+    }
+    await adapter.rename(tempPath, keyPath);
+}
+
+/**
+ * Derive the key that wraps the data key from a passphrase
+ * @param passphrase The passphrase
+ * @param salt Random salt stored in the key file
+ * @param iterations PBKDF2 iterations
+ */
+async function deriveWrappingKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(passphrase),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['wrapKey', 'unwrapKey']
+    );
+}
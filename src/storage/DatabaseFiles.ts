@@ -0,0 +1,97 @@
+import { DataAdapter, normalizePath } from 'obsidian';
+import { BackupManager } from './BackupManager';
+
+// Database names become file names, so keep them portable
+const DATABASE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * On-disk locations of a named database
+ */
+export interface DatabasePaths {
+    // Incremental data directory store
+    dataDir: string;
+    // Single-file database written before incremental persistence
+    legacyFile: string;
+    // Lease held by the device that has the database open
+    lockFile: string;
+    // Wrapped data key of an encrypted database
+    keyFile: string;
+}
+
+/**
+ * Get the on-disk locations of a named database
+ * @param pluginDir Plugin directory
+ * @param dbName Database name
+ */
+export function getDatabasePaths(pluginDir: string, dbName: string): DatabasePaths {
+    return {
+        dataDir: normalizePath(`${pluginDir}/${dbName}.pgdata`),
+        legacyFile: normalizePath(`${pluginDir}/${dbName}.db`),
+        lockFile: normalizePath(`${pluginDir}/${dbName}.lock`),
+        keyFile: normalizePath(`${pluginDir}/${dbName}.key`)
+    };
+}
+
+/**
+ * Check if a database name can be used as a file name
+ * @param dbName Database name
+ */
+export function isValidDatabaseName(dbName: string): boolean {
+    return DATABASE_NAME_PATTERN.test(dbName);
+}
+
+/**
+ * Rename the files of a database, including its backups
+ * The database must not be open.
+ * @param adapter Vault data adapter
+ * @param pluginDir Plugin directory
+ * @param from Current database name
+ * @param to New database name
+ */
+export async function renameDatabaseFiles(adapter: DataAdapter, pluginDir: string, from: string, to: string): Promise<void> {
+    const source = getDatabasePaths(pluginDir, from);
+    const target = getDatabasePaths(pluginDir, to);
+
+    if (await adapter.exists(target.dataDir) || await adapter.exists(target.legacyFile)) {
+        throw new Error(`Files for database "${to}" already exist`);
+    }
+
+    if (await adapter.exists(source.dataDir)) {
+        await adapter.rename(source.dataDir, target.dataDir);
+    }
+    if (await adapter.exists(source.legacyFile)) {
+        await adapter.rename(source.legacyFile, target.legacyFile);
+    }
+    if (await adapter.exists(source.lockFile)) {
+        await adapter.rename(source.lockFile, target.lockFile);
+    }
+    if (await adapter.exists(source.keyFile)) {
+        await adapter.rename(source.keyFile, target.keyFile);
+    }
+    await new BackupManager(adapter, pluginDir, from).renameBackups(to);
+}
+
+/**
+ * Delete the files of a database, including its backups
+ * The database must not be open.
+ * @param adapter Vault data adapter
+ * @param pluginDir Plugin directory
+ * @param dbName Database name
+ */
+export async function deleteDatabaseFiles(adapter: DataAdapter, pluginDir: string, dbName: string): Promise<void> {
+    const paths = getDatabasePaths(pluginDir, dbName);
+
+    if (await adapter.exists(paths.dataDir)) {
+        await adapter.rmdir(paths.dataDir, true);
+    }
+    if (await adapter.exists(paths.legacyFile)) {
+        await adapter.remove(paths.legacyFile);
+    }
+    if (await adapter.exists(paths.lockFile)) {
+        await adapter.remove(paths.lockFile);
+    }
+    if (await adapter.exists(paths.keyFile)) {
+        await adapter.remove(paths.keyFile);
+    }
+    await new BackupManager(adapter, pluginDir, dbName).deleteBackups();
+}
@@ -0,0 +1,148 @@
+import { App, DataAdapter } from 'obsidian';
+import { hostname } from 'os';
+
+// How often the holder refreshes its lease
+export const LOCK_HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// A lease older than this is considered abandoned, e.g. after a crash.
+// Sync services can take minutes to deliver a heartbeat, so keep this generous.
+const LOCK_LEASE_TIMEOUT_MS = 5 * 60 * 1000;
+
+const DEVICE_ID_KEY = 'pglite-device-id';
+
+/**
+ * Contents of a lock file
+ */
+export interface LockInfo {
+    deviceId: string;
+    deviceName: string;
+    acquiredAt: number;
+    heartbeatAt: number;
+}
+
+/**
+ * Thrown when another device holds the lock on a database
+ */
+export class DatabaseLockedError extends Error {
+    /**
+     * Create a new DatabaseLockedError
+     * @param holder The lock held by the other device
+     */
+    constructor(public readonly holder: LockInfo) {
+        super(`The database is open on ${holder.deviceName} (last seen ${new Date(holder.heartbeatAt).toLocaleString()})`);
+        this.name = 'DatabaseLockedError';
+    }
+}
+
+/**
+ * Get the id of this device, creating one on first use
+ * The id is kept in local storage, which is per device and never synced.
+ * @param app Obsidian app instance
+ */
+export function getDeviceId(app: App): string {
+    let deviceId = app.loadLocalStorage(DEVICE_ID_KEY) as string | null;
+    if (!deviceId) {
+        deviceId = crypto.randomUUID();
+        app.saveLocalStorage(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+}
+
+/**
+ * Lease on a database for synced vaults
+ *
+ * The lock file travels with the vault, so a device that opens a database can see
+ * that another device is using it. The holder refreshes the lease with a heartbeat;
+ * a lease whose heartbeat is older than LOCK_LEASE_TIMEOUT_MS can be acquired by
+ * anyone. Taking over a fresh lease is possible, after which the previous holder
+ * notices on its next heartbeat that it lost the lock.
+ */
+export class DatabaseLock {
+    private deviceName: string;
+
+    /**
+     * Create a new DatabaseLock
+     * @param adapter Vault data adapter
+     * @param lockPath Path of the lock file
+     * @param deviceId Id of this device, see getDeviceId()
+     */
+    constructor(private adapter: DataAdapter, private lockPath: string, private deviceId: string) {
+        this.deviceName = hostname();
+    }
+
+    /**
+     * Read the lock file
+     * @returns The current lock, or null if there is none or it is unreadable
+     */
+    async read(): Promise<LockInfo | null> {
+        if (!await this.adapter.exists(this.lockPath)) {
+            return null;
+        }
+        try {
+            return JSON.parse(await this.adapter.read(this.lockPath)) as LockInfo;
+        } catch (error) {
+            console.warn('Ignoring unreadable database lock:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Acquire the lock for this device
+     * @param takeOver Acquire the lock even if another device holds a fresh lease
+     * @throws DatabaseLockedError if another device holds the lock
+     */
+    async acquire(takeOver: boolean = false): Promise<void> {
+        const current = await this.read();
+        if (current && current.deviceId !== this.deviceId && !takeOver && !this.isStale(current)) {
+            throw new DatabaseLockedError(current);
+        }
+
+        const now = Date.now();
+        await this.write({
+            deviceId: this.deviceId,
+            deviceName: this.deviceName,
+            acquiredAt: now,
+            heartbeatAt: now
+        });
+        console.log('Database lock acquired:', this.lockPath);
+    }
+
+    /**
+     * Refresh the lease
+     * @returns The lock that replaced ours if another device took over, otherwise null
+     */
+    async heartbeat(): Promise<LockInfo | null> {
+        const current = await this.read();
+        if (current && current.deviceId !== this.deviceId) {
+            return current;
+        }
+
+        const now = Date.now();
+        await this.write({
+            deviceId: this.deviceId,
+            deviceName: this.deviceName,
+            acquiredAt: current?.acquiredAt ?? now,
+            heartbeatAt: now
+        });
+        return null;
+    }
+
+    /**
+     * Remove the lock file if this device holds it
+     */
+    async release(): Promise<void> {
+        const current = await this.read();
+        if (current && current.deviceId === this.deviceId) {
+            await this.adapter.remove(this.lockPath);
+            console.log('Database lock released:', this.lockPath);
+        }
+    }
+
+    private isStale(lock: LockInfo): boolean {
+        return Date.now() - lock.heartbeatAt > LOCK_LEASE_TIMEOUT_MS;
+    }
+
+    private async write(lock: LockInfo): Promise<void> {
+        await this.adapter.write(this.lockPath, JSON.stringify(lock));
+    }
+}
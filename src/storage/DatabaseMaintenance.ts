@@ -0,0 +1,131 @@
+import { PGliteInterface } from '@electric-sql/pglite';
+import { quoteIdent } from './SqlDump';
+
+/**
+ * Size and method of an index
+ */
+export interface IndexHealth {
+    name: string;
+    method: string;
+    size: number;
+}
+
+/**
+ * A vector column and its dimensions
+ */
+export interface VectorColumnHealth {
+    name: string;
+    dimensions: number | null;
+}
+
+/**
+ * Row count, sizes, indexes and vector columns of a table
+ */
+export interface TableHealth {
+    name: string;
+    rowCount: number;
+    tableSize: number;
+    indexSize: number;
+    totalSize: number;
+    indexes: IndexHealth[];
+    vectorColumns: VectorColumnHealth[];
+}
+
+/**
+ * Collect statistics about every table in the public schema, largest first
+ * @param client PGlite client
+ */
+export async function getTableHealth(client: PGliteInterface): Promise<TableHealth[]> {
+    // Sizes are bigint, which PGlite returns as strings; float8 keeps them numbers
+    const tables = (await client.query<{ name: string, table_size: number, index_size: number, total_size: number }>(`
+        SELECT c.relname AS name,
+               pg_table_size(c.oid)::float8 AS table_size,
+               pg_indexes_size(c.oid)::float8 AS index_size,
+               pg_total_relation_size(c.oid)::float8 AS total_size
+        FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = 'public' AND c.relkind = 'r'
+        ORDER BY total_size DESC, c.relname
+    `)).rows;
+
+    const indexes = (await client.query<{ table_name: string, name: string, method: string, size: number }>(`
+        SELECT t.relname AS table_name, i.relname AS name, am.amname AS method,
+               pg_relation_size(i.oid)::float8 AS size
+        FROM pg_index x
+        JOIN pg_class i ON i.oid = x.indexrelid
+        JOIN pg_class t ON t.oid = x.indrelid
+        JOIN pg_namespace n ON n.oid = t.relnamespace
+        JOIN pg_am am ON am.oid = i.relam
+        WHERE n.nspname = 'public'
+        ORDER BY i.relname
+    `)).rows;
+
+    // For pgvector, the type modifier is the number of dimensions
+    const vectorColumns = (await client.query<{ table_name: string, name: string, dimensions: number }>(`
+        SELECT c.relname AS table_name, a.attname AS name, a.atttypmod AS dimensions
+        FROM pg_attribute a
+        JOIN pg_class c ON c.oid = a.attrelid
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        JOIN pg_type t ON t.oid = a.atttypid
+        WHERE n.nspname = 'public' AND c.relkind = 'r' AND t.typname = 'vector'
+          AND a.attnum > 0 AND NOT a.attisdropped
+        ORDER BY a.attnum
+    `)).rows;
+
+    const health: TableHealth[] = [];
+    for (const table of tables) {
+        const count = await client.query<{ count: number }>(`SELECT count(*)::int AS count FROM ${quoteIdent(table.name)}`);
+        health.push({
+            name: table.name,
+            rowCount: count.rows[0].count,
+            tableSize: table.table_size,
+            indexSize: table.index_size,
+            totalSize: table.total_size,
+            indexes: indexes
+                .filter(index => index.table_name === table.name)
+                .map(({ name, method, size }) => ({ name, method, size })),
+            vectorColumns: vectorColumns
+                .filter(column => column.table_name === table.name)
+                .map(({ name, dimensions }) => ({ name, dimensions: dimensions > 0 ? dimensions : null }))
+        });
+    }
+    return health;
+}
+
+/**
+ * Find tables in the public schema the plugin does not manage
+ * @param tables Table statistics from getTableHealth()
+ * @param managedTables Names of the tables the plugin creates
+ */
+export function findOrphanedTables(tables: TableHealth[], managedTables: string[]): TableHealth[] {
+    return tables.filter(table => !managedTables.includes(table.name));
+}
+
+/**
+ * Rewrite all tables to reclaim space, then refresh planner statistics
+ * @param client PGlite client
+ */
+export async function vacuumFull(client: PGliteInterface): Promise<void> {
+    await client.exec('VACUUM FULL');
+    await client.exec('ANALYZE');
+}
+
+/**
+ * Refresh planner statistics
+ * @param client PGlite client
+ */
+export async function analyze(client: PGliteInterface): Promise<void> {
+    await client.exec('ANALYZE');
+}
+
+/**
+ * Drop tables and everything that depends on them
+ * @param client PGlite client
+ * @param tableNames Names of the tables to drop
+ */
+export async function dropTables(client: PGliteInterface, tableNames: string[]): Promise<void> {
+    await client.transaction(async (tx) => {
+        for (const tableName of tableNames) {
+            await tx.exec(`DROP TABLE IF EXISTS ${quoteIdent(tableName)} CASCADE`);
+        }
+    });
+}
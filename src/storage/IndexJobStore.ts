@@ -0,0 +1,151 @@
+import { PGliteProvider } from './PGliteProvider';
+
+/**
+ * State of an indexing job
+ * - running: notes are being indexed, or were until Obsidian or the database closed
+ * - paused: stopped by the user or because the embedding model failed repeatedly
+ * - completed: every note was indexed or failed
+ */
+export type IndexJobStatus = 'running' | 'paused' | 'completed';
+
+/**
+ * State of a note in an indexing job
+ */
+export type IndexFileStatus = 'pending' | 'done' | 'failed';
+
+/**
+ * An indexing job with its progress
+ */
+export interface IndexJob {
+    id: string;
+    status: IndexJobStatus;
+    // Number of notes in the job
+    total: number;
+    // Notes that were indexed, or skipped because they were unchanged or deleted
+    done: number;
+    failed: number;
+    // Why the job was paused, if it was not by the user
+    lastError: string | null;
+    startedAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Checkpoints of indexing jobs in the index_jobs and index_job_files tables
+ * Every note of a job is recorded when the job starts and marked when it is
+ * indexed, so a job can resume from the notes that are still pending.
+ */
+export class IndexJobStore {
+    /**
+     * Create a new IndexJobStore
+     * @param provider PGlite provider
+     */
+    constructor(private provider: PGliteProvider) {}
+
+    /**
+     * Get a job and its progress
+     * @param id Job id
+     * @returns The job, or null if there is none
+     */
+    async getJob(id: string): Promise<IndexJob | null> {
+        const result = await this.getClient().query<IndexJob>(
+            `SELECT j.id, j.status, j.total, j.last_error AS "lastError",
+                    j.started_at AS "startedAt", j.updated_at AS "updatedAt",
+                    count(*) FILTER (WHERE f.status = 'done')::int AS done,
+                    count(*) FILTER (WHERE f.status = 'failed')::int AS failed
+             FROM index_jobs j
+             LEFT JOIN index_job_files f ON f.job_id = j.id
+             WHERE j.id = $1
+             GROUP BY j.id`,
+            [id]
+        );
+        return result.rows[0] ?? null;
+    }
+
+    /**
+     * Start a job, replacing an earlier job with the same id
+     * @param id Job id
+     * @param paths Vault paths of the notes to index
+     * @returns The new job
+     */
+    async startJob(id: string, paths: string[]): Promise<IndexJob> {
+        try {
+            await this.getClient().transaction(async (tx) => {
+                await tx.query('DELETE FROM index_jobs WHERE id = $1', [id]);
+                await tx.query(
+                    `INSERT INTO index_jobs (id, status, total) VALUES ($1, 'running', $2)`,
+                    [id, paths.length]
+                );
+                await tx.query(
+                    'INSERT INTO index_job_files (job_id, path) SELECT $1, unnest($2::text[])',
+                    [id, paths]
+                );
+            });
+        } catch (error) {
+            throw new Error(`Failed to start indexing job ${id}: ${error}`);
+        }
+        return (await this.getJob(id))!;
+    }
+
+    /**
+     * Get the next notes a job still has to index
+     * @param id Job id
+     * @param limit Maximum number of paths to return
+     * @param exclude Paths to leave out, e.g. notes already tried in this run
+     */
+    async getPendingPaths(id: string, limit: number, exclude: string[] = []): Promise<string[]> {
+        const result = await this.getClient().query<{ path: string }>(
+            `SELECT path FROM index_job_files
+             WHERE job_id = $1 AND status = 'pending' AND NOT (path = ANY($2::text[]))
+             ORDER BY path
+             LIMIT $3`,
+            [id, exclude, limit]
+        );
+        return result.rows.map(row => row.path);
+    }
+
+    /**
+     * Record the outcome of indexing a note
+     * @param id Job id
+     * @param path Vault path of the note
+     * @param status New state of the note
+     * @param error Why the note failed
+     */
+    async markFile(id: string, path: string, status: IndexFileStatus, error: string | null = null): Promise<void> {
+        await this.getClient().transaction(async (tx) => {
+            await tx.query(
+                'UPDATE index_job_files SET status = $3, error = $4 WHERE job_id = $1 AND path = $2',
+                [id, path, status, error]
+            );
+            await tx.query('UPDATE index_jobs SET updated_at = now() WHERE id = $1', [id]);
+        });
+    }
+
+    /**
+     * Change the state of a job
+     * @param id Job id
+     * @param status New state
+     * @param lastError Why the job was paused, or null
+     */
+    async setStatus(id: string, status: IndexJobStatus, lastError: string | null = null): Promise<void> {
+        await this.getClient().query(
+            'UPDATE index_jobs SET status = $2, last_error = $3, updated_at = now() WHERE id = $1',
+            [id, status, lastError]
+        );
+    }
+
+    /**
+     * Delete a job and its checkpoints
+     * @param id Job id
+     */
+    async deleteJob(id: string): Promise<void> {
+        await this.getClient().query('DELETE FROM index_jobs WHERE id = $1', [id]);
+    }
+
+    private getClient() {
+        if (!this.provider.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        return this.provider.getClient();
+    }
+}
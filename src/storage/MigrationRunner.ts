@@ -0,0 +1,77 @@
+import { PGliteInterface } from '@electric-sql/pglite';
+import { Migration } from './migrations';
+
+/**
+ * Thrown when a schema migration fails
+ * The transaction has been rolled back, so the schema is unchanged.
+ */
+export class MigrationError extends Error {
+    /**
+     * Create a new MigrationError
+     * @param migration The migration that failed
+     * @param cause The underlying error
+     */
+    constructor(public readonly migration: Migration, public readonly cause: unknown) {
+        super(`Schema migration ${migration.version} (${migration.name}) failed: ${(cause as Error)?.message ?? cause}`);
+        this.name = 'MigrationError';
+    }
+}
+
+/**
+ * Applies pending schema migrations to a database
+ */
+export class MigrationRunner {
+    /**
+     * Create a new MigrationRunner
+     * @param client The PGlite client to migrate
+     * @param migrations All migrations, in any order
+     */
+    constructor(private client: PGliteInterface, private migrations: Migration[]) {}
+
+    /**
+     * Get the migrations that have not been applied yet
+     * @returns Pending migrations in version order
+     */
+    async getPending(): Promise<Migration[]> {
+        await this.client.exec(`
+            CREATE TABLE IF NOT EXISTS schema_migrations (
+                version INTEGER PRIMARY KEY,
+                name TEXT NOT NULL,
+                applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+            )
+        `);
+
+        const result = await this.client.query<{ version: number }>('SELECT version FROM schema_migrations');
+        const applied = new Set(result.rows.map(row => row.version));
+
+        return this.migrations
+            .filter(migration => !applied.has(migration.version))
+            .sort((a, b) => a.version - b.version);
+    }
+
+    /**
+     * Apply all pending migrations in a single transaction
+     * @param pending Migrations returned by getPending()
+     * @throws MigrationError if any migration fails; none of them are applied then
+     */
+    async apply(pending: Migration[]): Promise<void> {
+        if (pending.length === 0) {
+            return;
+        }
+
+        await this.client.transaction(async (tx) => {
+            for (const migration of pending) {
+                try {
+                    await migration.up(tx);
+                    await tx.query(
+                        'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+                        [migration.version, migration.name]
+                    );
+                } catch (error) {
+                    throw new MigrationError(migration, error);
+                }
+                console.log(`Applied schema migration ${migration.version} (${migration.name})`);
+            }
+        });
+    }
+}
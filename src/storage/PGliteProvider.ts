@@ -1,95 +1,270 @@
-import { Plugin, requestUrl, normalizePath } from 'obsidian';
-import { PGlite } from '@electric-sql/pglite';
+import { Events, Plugin } from 'obsidian';
+import { PGlite, PGliteInterface, types } from '@electric-sql/pglite';
+import { PGliteWorker } from '@electric-sql/pglite/worker';
+import { live, LiveNamespace, LiveQuery } from '@electric-sql/pglite/live';
+import { promisify } from 'util';
+import { gzip, gunzip } from 'zlib';
+import pgliteWorkerSource from 'inline-worker:../worker/pglite.worker';
+import { PGliteResourceCache, PGliteResources } from './PGliteResourceCache';
+import { AutosaveOptions, AutosaveScheduler, DEFAULT_AUTOSAVE_OPTIONS } from './AutosaveScheduler';
+import { DataDirConflictError, DataDirCorruptionError, DataDirStore } from './DataDirStore';
+import { getDatabasePaths } from './DatabaseFiles';
+import { MigrationError, MigrationRunner } from './MigrationRunner';
+import { MIGRATIONS } from './migrations';
+import { BackupInfo, BackupManager, BackupOptions, DEFAULT_BACKUP_OPTIONS } from './BackupManager';
+import { exportSqlDump, importSqlDump } from './SqlDump';
+import { TableHealth, dropTables, getTableHealth } from './DatabaseMaintenance';
+import { DatabaseLock, DatabaseLockedError, LOCK_HEARTBEAT_INTERVAL_MS, getDeviceId } from './DatabaseLock';
+import { DatabaseCipher, PassphraseRequiredError, WrongPassphraseError, isEncrypted, readKeyFile, writeKeyFile } from './DatabaseEncryption';
 
-// Use a specific version for stability
-const PGLITE_VERSION = '0.2.17';
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Parts of a query in which $n is not a placeholder (comments, strings, quoted identifiers,
+// dollar-quoted strings and identifiers, which may contain $), then placeholders and %
+const SQL_PLACEHOLDER = /--[^\n]*|\/\*[\s\S]*?\*\/|[Ee]'(?:[^'\\]|\\[\s\S]|'')*'|'(?:[^']|'')*'|"(?:[^"]|"")*"|\$([A-Za-z_][A-Za-z0-9_]*)?\$[\s\S]*?\$\1\$|[A-Za-z_][A-Za-z0-9_$]*|\$([0-9]+)|%/g;
+
+/**
+ * How to recover from a corrupt saved database
+ * - restore-previous: replace the corrupt copy with the previous good save
+ * - start-fresh: move the corrupt database aside and create an empty one
+ */
+export type DatabaseRecovery = 'restore-previous' | 'start-fresh';
+
+/**
+ * How to open a database that may be in use on another device
+ * - read-write: acquire the lock, failing if another device holds it
+ * - read-only: open without the lock; writes and saves are refused
+ * - take-over: acquire the lock even if another device holds it
+ */
+export type DatabaseAccess = 'read-write' | 'read-only' | 'take-over';
+
+/**
+ * A live query registered with the provider, see PGliteProvider.liveQuery()
+ */
+export interface LiveQuerySubscription {
+    unsubscribe(): Promise<void>;
+}
+
+/**
+ * State of a live query, kept so it can be moved to a replacement client
+ */
+interface ActiveLiveQuery {
+    sql: string;
+    params: unknown[];
+    callback: (rows: any[]) => void;
+    handle: LiveQuery<any> | null;
+}
+
+/**
+ * Size and save time of the persisted database
+ */
+export interface DatabaseStorageInfo {
+    // Size of the saved data directory in bytes
+    persistedSize: number;
+    // Time of the last save, possibly by another device or session
+    savedAt: Date | null;
+}
+
+/**
+ * Options for the PGlite provider
+ */
+export interface PGliteProviderOptions {
+    autosave?: AutosaveOptions;
+    backups?: BackupOptions;
+    // Host the database in a Web Worker instead of on the main thread
+    useWorker?: boolean;
+}
 
 /**
  * Provider for PGlite database in Obsidian
- * Handles loading PGlite from CDN and database persistence
+ * Handles loading PGlite resources and database persistence
+ *
+ * Events:
+ * - 'save-state-change': the database became dirty or was saved
+ * - 'read-only': the database became read-only, with a message explaining why
+ * - 'index-change': vectors were added or a vector table was reset, with an IndexChange
  */
-export class PGliteProvider {
+export class PGliteProvider extends Events {
     private plugin: Plugin;
     private dbName: string;
-    private pgClient: PGlite | null = null;
+    private pgClient: PGliteInterface | null = null;
+    private trackedClient: PGliteInterface | null = null;
+    // Id the next writing transaction gets, as of the last check for writes
+    private nextTransactionId: number = 0;
+    private useWorker: boolean;
+    // Workers hosting clients created in worker mode, terminated when the client closes
+    private clientWorkers: Map<PGliteInterface, Worker> = new Map();
+    private liveQueries: Set<ActiveLiveQuery> = new Set();
     private isInitialized: boolean = false;
     private dbPath: string;
+    private legacyDbPath: string;
+    private store: DataDirStore;
+    private backups: BackupManager;
     private relaxedDurability: boolean;
+    private resourceCache: PGliteResourceCache;
+    private autosave: AutosaveScheduler;
+    private lastSavedAt: Date | null = null;
+    private lock: DatabaseLock;
+    private hasLock: boolean = false;
+    private readOnly: boolean = false;
+    private heartbeatTimer: number | null = null;
+    private keyPath: string;
+    private cipher: DatabaseCipher | null = null;
     
     /**
      * Create a new PGliteProvider
      * @param plugin Obsidian plugin instance
      * @param dbName Database name
      * @param relaxedDurability Whether to use relaxed durability for better performance
+     * @param options Additional provider options
      */
-    constructor(plugin: Plugin, dbName: string, relaxedDurability: boolean = true) {
+    constructor(plugin: Plugin, dbName: string, relaxedDurability: boolean = true, options: PGliteProviderOptions = {}) {
+        super();
         this.plugin = plugin;
         this.dbName = dbName;
         this.relaxedDurability = relaxedDurability;
+        this.useWorker = options.useWorker ?? false;
+        this.resourceCache = new PGliteResourceCache(plugin);
+        this.autosave = new AutosaveScheduler(
+            () => this.persist(),
+            options.autosave ?? DEFAULT_AUTOSAVE_OPTIONS
+        );
         
-        // Use the plugin's data directory for storing the database file
+        // Use the plugin's data directory for storing the database
         // This ensures we're using the correct plugin ID from the manifest
-        this.dbPath = normalizePath(`${this.plugin.manifest.dir}/${this.dbName}.db`);
+        const paths = getDatabasePaths(this.plugin.manifest.dir ?? '', this.dbName);
+        this.dbPath = paths.dataDir;
+        this.store = new DataDirStore(this.plugin.app.vault.adapter, this.dbPath);
+        this.backups = new BackupManager(
+            this.plugin.app.vault.adapter,
+            this.plugin.manifest.dir ?? '',
+            this.dbName,
+            options.backups ?? DEFAULT_BACKUP_OPTIONS
+        );
         console.log('Database path set to:', this.dbPath);
+        
+        // Databases saved before incremental persistence are a single gzipped tarball
+        this.legacyDbPath = paths.legacyFile;
+        
+        this.lock = new DatabaseLock(this.plugin.app.vault.adapter, paths.lockFile, getDeviceId(this.plugin.app));
+        this.keyPath = paths.keyFile;
     }
     
     /**
      * Initialize the PGlite database
-     * Loads PGlite from CDN and restores data if available
+     * Loads PGlite resources from the local cache and restores data if available
+     * @param recovery How to recover from a corrupt database reported by a previous attempt
+     * @param access How to open the database if another device may be using it
+     * @param passphrase Passphrase of an encrypted database
+     * @throws DataDirCorruptionError if the saved database fails verification
+     * @throws DatabaseLockedError if another device holds the lock and access is read-write
+     * @throws PassphraseRequiredError if the database is encrypted and no passphrase was given
+     * @throws WrongPassphraseError if the passphrase does not unlock the database
      */
-    async initialize(): Promise<void> {
+    async initialize(recovery?: DatabaseRecovery, access: DatabaseAccess = 'read-write', passphrase?: string): Promise<void> {
         try {
-            const { fsBundle, wasmModule, vectorExtensionBundlePath } = await this.loadPGliteResources();
+            if (access === 'read-only') {
+                this.readOnly = true;
+            } else {
+                await this.lock.acquire(access === 'take-over');
+                this.hasLock = true;
+            }
             
-            // Check if we have a saved database file
-            const databaseFileExists = await this.plugin.app.vault.adapter.exists(this.dbPath);
+            // Unlock before anything reads the saved segments
+            const keyFile = await readKeyFile(this.plugin.app.vault.adapter, this.keyPath);
+            if (keyFile) {
+                if (!passphrase) {
+                    throw new PassphraseRequiredError(this.dbName);
+                }
+                this.cipher = await DatabaseCipher.unlock(keyFile, passphrase);
+                this.store.setCipher(this.cipher);
+            }
             
-            if (databaseFileExists) {
-                // Load existing database
-                console.log('Loading existing database from:', this.dbPath);
-                const fileBuffer = await this.plugin.app.vault.adapter.readBinary(this.dbPath);
-                const fileBlob = new Blob([fileBuffer], { type: 'application/x-gzip' });
-                
+            if (recovery === 'restore-previous') {
+                await this.store.restorePrevious();
+            } else if (recovery === 'start-fresh') {
+                await this.moveDatabaseAside();
+            }
+            
+            // Check if we have a saved database
+            const dataDir = await this.loadDataDir();
+            
+            if (dataDir) {
                 // Create PGlite instance with existing data
-                this.pgClient = await this.createPGliteInstance({
-                    loadDataDir: fileBlob,
-                    fsBundle,
-                    wasmModule,
-                    vectorExtensionBundlePath
-                });
+                try {
+                    this.pgClient = await this.createPGliteInstance(dataDir);
+                } catch (error) {
+                    throw new DataDirCorruptionError(
+                        `The saved database could not be opened: ${error}`,
+                        await this.store.hasPreviousCopy()
+                    );
+                }
             } else {
                 // Create new database
                 console.log('Creating new database');
-                this.pgClient = await this.createPGliteInstance({
-                    fsBundle,
-                    wasmModule,
-                    vectorExtensionBundlePath
-                });
+                this.pgClient = await this.createPGliteInstance();
             }
+            this.trackedClient = await this.createTrackedClient(this.pgClient);
             
             this.isInitialized = true;
             console.log('PGlite initialized successfully');
             
+            // A read-only database is left exactly as it is on disk
+            if (this.readOnly) {
+                console.log('Database opened read-only');
+                await this.refuseWrites();
+                return;
+            }
+            
             // Make sure the directory exists
-            const dirPath = this.dbPath.substring(0, this.dbPath.lastIndexOf('/'));
-            if (!await this.plugin.app.vault.adapter.exists(dirPath)) {
-                await this.plugin.app.vault.adapter.mkdir(dirPath);
+            if (!await this.plugin.app.vault.adapter.exists(this.dbPath)) {
+                await this.plugin.app.vault.adapter.mkdir(this.dbPath);
             }
+            
+            // Clean up segments left behind by interrupted saves
+            await this.store.compact();
+            
+            await this.migrate(dataDir !== null);
+            await this.backupIfDue();
+            
+            this.heartbeatTimer = window.setInterval(() => this.heartbeat(), LOCK_HEARTBEAT_INTERVAL_MS);
+            this.autosave.start();
         } catch (error) {
             console.error('Error initializing PGlite:', error);
+            // Writes of a failed attempt, e.g. by migrations, must not schedule a save
+            this.autosave.dispose();
+            if (error instanceof MigrationError) {
+                // Close without saving so the persisted database keeps its old schema
+                await this.discardClient();
+                throw error;
+            }
+            await this.releaseLock();
+            // Corruption, locks and passphrases are recoverable, so let the caller offer the options
+            if (error instanceof DataDirCorruptionError || error instanceof DatabaseLockedError ||
+                error instanceof PassphraseRequiredError || error instanceof WrongPassphraseError) {
+                throw error;
+            }
             throw new Error(`Failed to initialize PGlite: ${error}`);
         }
     }
     
+    /**
+     * Get the name of the database this provider opens
+     */
+    getDatabaseName(): string {
+        return this.dbName;
+    }
+    
     /**
      * Get the PGlite client
      * @returns The initialized PGlite client
      */
-    getClient(): PGlite {
-        if (!this.pgClient) {
+    getClient(): PGliteInterface {
+        if (!this.trackedClient) {
             throw new Error('PGlite client is not initialized');
         }
-        return this.pgClient;
+        return this.trackedClient;
     }
     
     /**
@@ -99,103 +274,752 @@ export class PGliteProvider {
         return this.isInitialized && this.pgClient !== null;
     }
     
+    /**
+     * Whether the database refuses writes and saves
+     * This is the case when it was opened read-only, when another device took over
+     * its lock, or when the saved copy changed on another device.
+     */
+    isReadOnly(): boolean {
+        return this.readOnly;
+    }
+    
+    /**
+     * Whether the saved database and its backups are encrypted with a passphrase
+     */
+    isEncrypted(): boolean {
+        return this.cipher !== null;
+    }
+    
+    /**
+     * Whether there are writes that have not been saved yet
+     */
+    isDirty(): boolean {
+        return this.autosave.isDirty();
+    }
+    
+    /**
+     * Get the time of the last successful save
+     * @returns The time of the last save, or null if nothing was saved this session
+     */
+    getLastSavedAt(): Date | null {
+        return this.lastSavedAt;
+    }
+    
+    /**
+     * Record that the database has unsaved writes and schedule an autosave
+     * Writes through getClient() are detected automatically
+     */
+    markDirty(): void {
+        const wasDirty = this.autosave.isDirty();
+        this.autosave.markDirty();
+        if (!wasDirty) {
+            this.trigger('save-state-change');
+        }
+    }
+    
+    /**
+     * Save the database if it has unsaved writes
+     * @param force Save even while autosave is suspended
+     */
+    async flush(force: boolean = false): Promise<void> {
+        await this.autosave.flushIfDirty(force);
+    }
+    
+    /**
+     * Run a bulk operation with autosave suspended, then flush once
+     * @param operation The operation to run
+     * @returns The result of the operation
+     */
+    async withAutosaveSuspended<T>(operation: () => Promise<T>): Promise<T> {
+        this.autosave.suspend();
+        try {
+            return await operation();
+        } finally {
+            await this.autosave.resume();
+        }
+    }
+    
+    /**
+     * Run a query and call back with fresh rows whenever the tables it reads change
+     * Built on PGlite's live extension. The callback receives the initial rows before
+     * this resolves. Subscriptions follow the database when it is restored from a
+     * backup and end when it is closed.
+     * Placeholders may be reused and appear in any order; see inlineParams().
+     * @param sql SELECT query with $1, $2, ... placeholders
+     * @param params Values for the placeholders
+     * @param callback Called with the current rows
+     * @returns Subscription to end the live query
+     */
+    async liveQuery<T = Record<string, unknown>>(
+        sql: string,
+        params: unknown[],
+        callback: (rows: T[]) => void
+    ): Promise<LiveQuerySubscription> {
+        if (!this.pgClient || !this.isInitialized) {
+            throw new Error('PGlite client is not initialized');
+        }
+        
+        const query: ActiveLiveQuery = { sql, params, callback, handle: null };
+        await this.startLiveQuery(query);
+        this.liveQueries.add(query);
+        
+        return {
+            unsubscribe: async () => {
+                if (!this.liveQueries.delete(query)) return;
+                await query.handle?.unsubscribe();
+            }
+        };
+    }
+    
     /**
      * Save the current state of the database
+     * Saves run one at a time through the autosave scheduler, so they never overlap an autosave.
      */
     async save(): Promise<void> {
+        await this.autosave.flushNow();
+    }
+    
+
+    
+    /**
+     * Take a snapshot of the database in the backups folder
+     * @param reason Short kebab-case reason, e.g. 'manual' or 'before-drop-table'
+     * @returns The created snapshot
+     */
+    async createBackup(reason: string): Promise<BackupInfo> {
         if (!this.pgClient || !this.isInitialized) {
-            console.log('Cannot save: PGlite not initialized');
+            throw new Error('PGlite client is not initialized');
+        }
+        const snapshot = await this.dumpDataDir('gzip');
+        if (!this.cipher) {
+            return this.backups.createBackup(snapshot, reason);
+        }
+        const encrypted = await this.cipher.encrypt(new Uint8Array(await snapshot.arrayBuffer()));
+        return this.backups.createBackup(new Blob([encrypted]), reason);
+    }
+    
+    /**
+     * Take the daily snapshot if none was taken today
+     */
+    async backupIfDue(): Promise<void> {
+        if (!this.isReady() || !await this.backups.isDailyBackupDue()) {
             return;
         }
-        
         try {
-            console.log('Saving database to:', this.dbPath);
-            const blob: Blob = await this.pgClient.dumpDataDir('gzip');
-            await this.plugin.app.vault.adapter.writeBinary(
-                this.dbPath,
-                Buffer.from(await blob.arrayBuffer())
-            );
-            console.log('Database saved successfully');
+            await this.createBackup('daily');
         } catch (error) {
-            console.error('Error saving database:', error);
-            throw error;
+            console.error('Error creating daily backup:', error);
         }
     }
     
-
+    /**
+     * List the snapshots of this database, newest first
+     */
+    async listBackups(): Promise<BackupInfo[]> {
+        return this.backups.listBackups();
+    }
     
+    /**
+     * Replace the database with a snapshot and save it
+     * The current state is snapshotted first, so a restore can be undone.
+     * @param backupPath Path of the snapshot to restore
+     */
+    async restoreFromBackup(backupPath: string): Promise<void> {
+        if (!this.pgClient || !this.isInitialized) {
+            throw new Error('PGlite client is not initialized');
+        }
+        this.assertWritable();
+        
+        const snapshot = await this.decryptSnapshot(await this.backups.readBackup(backupPath));
+        await this.createBackup('before-restore');
+        
+        // Open the snapshot before closing the current client so a bad snapshot changes nothing
+        const restoredClient = await this.createPGliteInstance(snapshot);
+        await this.closeClient(this.pgClient);
+        this.pgClient = restoredClient;
+        this.trackedClient = await this.createTrackedClient(restoredClient);
+        
+        // Move live queries to the restored client and show them its rows
+        for (const query of this.liveQueries) {
+            await this.startLiveQuery(query);
+        }
+        
+        // The snapshot may predate some migrations
+        await this.migrate(false);
+        
+        this.markDirty();
+        await this.save();
+        console.log('Database restored from backup:', backupPath);
+    }
+
+    /**
+     * Export the database as a plain-text SQL dump
+     * @returns The SQL dump
+     */
+    async exportSql(): Promise<string> {
+        if (!this.pgClient || !this.isInitialized) {
+            throw new Error('PGlite client is not initialized');
+        }
+        return exportSqlDump(this.pgClient);
+    }
+
+    /**
+     * Replay an SQL dump into the database and save it
+     * Tables in the dump replace existing tables of the same name. The current state
+     * is snapshotted first, and the dump is replayed in one transaction, so a failed
+     * import changes nothing.
+     * @param sql The SQL dump
+     */
+    async importSql(sql: string): Promise<void> {
+        if (!this.pgClient || !this.isInitialized) {
+            throw new Error('PGlite client is not initialized');
+        }
+        this.assertWritable();
+
+        await this.createBackup('before-import');
+        await importSqlDump(this.getClient(), sql);
+
+        // The dump may come from an older schema version
+        await this.migrate(false);
+
+        await this.save();
+        console.log('SQL dump imported into database:', this.dbName);
+    }
+
+    /**
+     * Encrypt the database with a passphrase, change its passphrase or remove its encryption
+     * Encrypting or decrypting rewrites the saved segments and all backups. Changing the
+     * passphrase only rewrites the key file, as the data key stays the same.
+     * @param currentPassphrase Current passphrase, ignored if the database is not encrypted
+     * @param newPassphrase New passphrase, or null to store the database unencrypted
+     * @throws WrongPassphraseError if the current passphrase is wrong
+     */
+    async changePassphrase(currentPassphrase: string | null, newPassphrase: string | null): Promise<void> {
+        if (!this.pgClient || !this.isInitialized) {
+            throw new Error('PGlite client is not initialized');
+        }
+        this.assertWritable();
+        const adapter = this.plugin.app.vault.adapter;
+        
+        if (this.cipher) {
+            const keyFile = await readKeyFile(adapter, this.keyPath);
+            if (!keyFile) {
+                throw new Error(`Key file ${this.keyPath} is missing`);
+            }
+            await DatabaseCipher.unlock(keyFile, currentPassphrase ?? '');
+        }
+        
+        // Write unsaved changes first, so every segment the manifests reference exists
+        if (this.isDirty()) {
+            await this.save();
+        }
+        
+        if (this.cipher && newPassphrase) {
+            await writeKeyFile(adapter, this.keyPath, await this.cipher.wrap(newPassphrase));
+            console.log('Database passphrase changed:', this.dbName);
+        } else if (!this.cipher && newPassphrase) {
+            // The key file goes first, so a crash never leaves encrypted data without a key
+            const cipher = await DatabaseCipher.generate();
+            await writeKeyFile(adapter, this.keyPath, await cipher.wrap(newPassphrase));
+            // Unreferenced segments would otherwise stay unencrypted until the next startup
+            await this.store.compact();
+            await this.store.reencrypt(cipher);
+            await this.backups.rewriteBackups(async (snapshot) => toArrayBuffer(await cipher.encrypt(new Uint8Array(snapshot))));
+            this.cipher = cipher;
+            console.log('Database encrypted:', this.dbName);
+        } else if (this.cipher && !newPassphrase) {
+            await this.store.reencrypt(null);
+            await this.backups.rewriteBackups(async (snapshot) => (await this.decryptSnapshot(new Blob([snapshot]))).arrayBuffer());
+            await adapter.remove(this.keyPath);
+            this.cipher = null;
+            console.log('Database decrypted:', this.dbName);
+        }
+    }
+
+    /**
+     * Get the size and save time of the persisted database
+     */
+    async getStorageInfo(): Promise<DatabaseStorageInfo> {
+        let savedAt = this.lastSavedAt;
+        if (!savedAt) {
+            try {
+                const manifest = await this.store.readManifest();
+                savedAt = manifest ? new Date(manifest.savedAt) : null;
+            } catch (error) {
+                console.warn('Could not read manifest for storage info:', error);
+            }
+        }
+        return {
+            persistedSize: await this.store.getDiskUsage(),
+            savedAt
+        };
+    }
+
+    /**
+     * Collect row counts, sizes, indexes and vector columns of every table
+     */
+    async getTableHealth(): Promise<TableHealth[]> {
+        return getTableHealth(this.getClient());
+    }
+
+    /**
+     * Drop tables and save the database
+     * The current state is snapshotted first, so the drop can be undone.
+     * @param tableNames Names of the tables to drop
+     */
+    async dropTables(tableNames: string[]): Promise<void> {
+        this.assertWritable();
+
+        await this.createBackup('before-drop-tables');
+        await dropTables(this.getClient(), tableNames);
+
+        await this.save();
+        console.log('Dropped tables:', tableNames.join(', '));
+    }
+
     /**
      * Close the PGlite connection
      */
     async close(): Promise<void> {
+        this.autosave.dispose();
+        this.stopHeartbeat();
+        this.liveQueries.clear();
         if (this.pgClient) {
             try {
                 // Save before closing
-                await this.save();
+                if (!this.readOnly) {
+                    await this.save();
+                }
                 
                 // Close the connection
-                await this.pgClient.close();
+                await this.closeClient(this.pgClient);
                 this.pgClient = null;
+                this.trackedClient = null;
                 this.isInitialized = false;
                 console.log('PGlite connection closed');
             } catch (error) {
                 console.error('Error closing PGlite connection:', error);
             }
         }
+        await this.releaseLock();
     }
     
     /**
-     * Create a PGlite instance with the specified options
+     * Write the database to the vault; only the autosave scheduler calls this
      */
-    private async createPGliteInstance(options: {
-        loadDataDir?: Blob,
-        fsBundle: Blob,
-        wasmModule: WebAssembly.Module,
-        vectorExtensionBundlePath: URL
-    }): Promise<PGlite> {
-        // Create PGlite instance with options
-        return await PGlite.create({
-            ...options,
-            relaxedDurability: this.relaxedDurability,
-            extensions: {
-                vector: options.vectorExtensionBundlePath
+    private async persist(): Promise<void> {
+        if (!this.pgClient || !this.isInitialized) {
+            console.log('Cannot save: PGlite not initialized');
+            return;
+        }
+        if (this.readOnly) {
+            throw new Error('Cannot save: the database is open read-only');
+        }
+        
+        try {
+            console.log('Saving database to:', this.dbPath);
+            const writeCount = this.autosave.getWriteCount();
+            const tarball = await this.dumpDataDir('none');
+            await this.store.save(tarball);
+            
+            // The legacy single-file database has been migrated by the first save
+            if (await this.plugin.app.vault.adapter.exists(this.legacyDbPath)) {
+                await this.plugin.app.vault.adapter.remove(this.legacyDbPath);
             }
-        });
+            this.autosave.markSaved(writeCount);
+            this.lastSavedAt = new Date();
+            this.trigger('save-state-change');
+            console.log('Database saved successfully');
+        } catch (error) {
+            console.error('Error saving database:', error);
+            if (error instanceof DataDirConflictError) {
+                await this.becomeReadOnly(
+                    `The database "${this.dbName}" was saved on another device since it was opened here. ` +
+                    'Unsaved changes were not written. Reopen the database to load the other copy.'
+                );
+            }
+            throw error;
+        }
     }
     
     /**
-     * Load PGlite resources from CDN
+     * Decrypt a snapshot if it is encrypted
+     * Snapshots taken before the database was encrypted are returned as they are.
+     * @param snapshot Snapshot read from the backups folder
      */
-    private async loadPGliteResources(): Promise<{
-        fsBundle: Blob,
-        wasmModule: WebAssembly.Module,
-        vectorExtensionBundlePath: URL
-    }> {
-        try {
-            const [fsBundleResponse, wasmResponse] = await Promise.all([
-                requestUrl(
-                    `https://unpkg.com/@electric-sql/pglite@${PGLITE_VERSION}/dist/postgres.data`
-                ),
-                requestUrl(
-                    `https://unpkg.com/@electric-sql/pglite@${PGLITE_VERSION}/dist/postgres.wasm`
-                )
-            ]);
+    private async decryptSnapshot(snapshot: Blob): Promise<Blob> {
+        const data = new Uint8Array(await snapshot.arrayBuffer());
+        if (!isEncrypted(data)) {
+            return snapshot;
+        }
+        if (!this.cipher) {
+            throw new Error('The backup is encrypted, but the database has no passphrase');
+        }
+        return new Blob([await this.cipher.decrypt(data)], { type: 'application/x-gzip' });
+    }
 
-            const fsBundle = new Blob([fsBundleResponse.arrayBuffer], {
-                type: 'application/octet-stream'
-            });
-            
-            const wasmModule = await WebAssembly.compile(wasmResponse.arrayBuffer);
-            
-            // Add vector extension bundle path
-            const vectorExtensionBundlePath = new URL(
-                `https://unpkg.com/@electric-sql/pglite@${PGLITE_VERSION}/dist/vector.tar.gz`
+    /**
+     * Subscribe a live query on the current client and deliver its initial rows
+     * @param query The live query to start
+     */
+    private async startLiveQuery(query: ActiveLiveQuery): Promise<void> {
+        // The live namespace is bound to the underlying client, so its own temporary views
+        // and triggers do not mark the database dirty
+        const client = this.pgClient as PGliteInterface & { live: LiveNamespace };
+        if (this.readOnly) {
+            // A read-only database does not change, and the live extension could not create its views
+            query.callback((await client.query(query.sql, query.params)).rows);
+            return;
+        }
+        const sql = await inlineParams(client, query.sql, query.params);
+        query.handle = await client.live.query(sql, [], (results) => query.callback(results.rows));
+        query.callback(query.handle.initialResults.rows);
+    }
+    
+    /**
+     * Refresh the lock, going read-only if another device took it over
+     */
+    private async heartbeat(): Promise<void> {
+        try {
+            const holder = await this.lock.heartbeat();
+            if (holder) {
+                await this.becomeReadOnly(
+                    `The database "${this.dbName}" was taken over by ${holder.deviceName}. ` +
+                    'It is read-only here until it is reopened.'
+                );
+            }
+        } catch (error) {
+            console.error('Error refreshing database lock:', error);
+        }
+    }
+    
+    /**
+     * Stop writing to the database for the rest of this session
+     * @param message Explanation shown to the user
+     */
+    private async becomeReadOnly(message: string): Promise<void> {
+        if (this.readOnly) return;
+        this.readOnly = true;
+        this.hasLock = false;
+        this.stopHeartbeat();
+        this.autosave.dispose();
+        console.warn(message);
+        this.trigger('read-only', message);
+        try {
+            await this.refuseWrites();
+        } catch (error) {
+            console.error('Error making the database read-only:', error);
+        }
+    }
+    
+    /**
+     * Make the database itself refuse writes, whatever the statements sent to it
+     * Live queries keep their last rows, as nothing can change them anymore. Their views
+     * are dropped first, since that is a write too.
+     */
+    private async refuseWrites(): Promise<void> {
+        for (const query of this.liveQueries) {
+            await query.handle?.unsubscribe();
+            query.handle = null;
+        }
+        await this.pgClient?.exec('SET default_transaction_read_only = on');
+    }
+    
+    /**
+     * Throw if the database is read-only
+     */
+    private assertWritable(): void {
+        if (this.readOnly) {
+            throw new Error('The database is open read-only');
+        }
+    }
+    
+    private stopHeartbeat(): void {
+        if (this.heartbeatTimer !== null) {
+            window.clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+    }
+    
+    /**
+     * Release the lock if this provider acquired it
+     */
+    private async releaseLock(): Promise<void> {
+        if (!this.hasLock) return;
+        this.hasLock = false;
+        try {
+            await this.lock.release();
+        } catch (error) {
+            console.error('Error releasing database lock:', error);
+        }
+    }
+    
+    /**
+     * Apply pending schema migrations
+     * @param backupFirst Snapshot the database before changing its schema
+     * @throws MigrationError if a migration fails; the transaction is rolled back
+     */
+    private async migrate(backupFirst: boolean): Promise<void> {
+        const runner = new MigrationRunner(this.getClient(), MIGRATIONS);
+        const pending = await runner.getPending();
+        if (pending.length === 0) {
+            return;
+        }
+        
+        if (backupFirst) {
+            await this.createBackup('before-migration');
+        }
+        await runner.apply(pending);
+    }
+    
+    /**
+     * Close the PGlite connection without saving
+     */
+    private async discardClient(): Promise<void> {
+        this.autosave.dispose();
+        this.stopHeartbeat();
+        this.liveQueries.clear();
+        await this.releaseLock();
+        if (this.pgClient) {
+            await this.closeClient(this.pgClient);
+        }
+        this.pgClient = null;
+        this.trackedClient = null;
+        this.isInitialized = false;
+    }
+    
+    /**
+     * Load the saved data directory, falling back to a legacy single-file database
+     * @returns The data directory tarball, or null for a new database
+     */
+    private async loadDataDir(): Promise<Blob | null> {
+        const dataDir = await this.store.load();
+        if (dataDir) {
+            console.log('Loading existing database from:', this.dbPath);
+            return dataDir;
+        }
+        
+        if (await this.plugin.app.vault.adapter.exists(this.legacyDbPath)) {
+            console.log('Loading legacy database from:', this.legacyDbPath);
+            const fileBuffer = await this.plugin.app.vault.adapter.readBinary(this.legacyDbPath);
+            return new Blob([fileBuffer], { type: 'application/x-gzip' });
+        }
+        
+        return null;
+    }
+    
+    /**
+     * Move the saved database aside, including a legacy single-file database
+     */
+    private async moveDatabaseAside(): Promise<void> {
+        await this.store.moveAside();
+        if (await this.plugin.app.vault.adapter.exists(this.legacyDbPath)) {
+            await this.plugin.app.vault.adapter.rename(
+                this.legacyDbPath,
+                `${this.legacyDbPath}.corrupt-${Date.now()}`
             );
-
-            return { fsBundle, wasmModule, vectorExtensionBundlePath };
+        }
+    }
+    
+    /**
+     * Create a PGlite instance, in a worker if worker mode is enabled
+     * Falls back to the main thread if the worker cannot be started.
+     * @param loadDataDir Data directory tarball to load, or nothing for a new database
+     */
+    private async createPGliteInstance(loadDataDir?: Blob): Promise<PGliteInterface> {
+        const resources = await this.resourceCache.load();
+        try {
+            if (this.useWorker) {
+                try {
+                    return await this.createWorkerInstance(resources, loadDataDir);
+                } catch (error) {
+                    console.warn('Could not start the PGlite worker, falling back to the main thread:', error);
+                }
+            }
+            
+            // Create PGlite instance with options
+            return await PGlite.create({
+                loadDataDir,
+                fsBundle: resources.fsBundle,
+                wasmModule: resources.wasmModule,
+                relaxedDurability: this.relaxedDurability,
+                extensions: {
+                    vector: resources.vectorExtensionBundlePath,
+                    live
+                }
+            });
+        } finally {
+            this.resourceCache.release(resources);
+        }
+    }
+    
+    /**
+     * Create a PGlite instance hosted in a Web Worker
+     * @param resources PGlite runtime resources
+     * @param loadDataDir Data directory tarball to load, or nothing for a new database
+     */
+    private async createWorkerInstance(resources: PGliteResources, loadDataDir?: Blob): Promise<PGliteInterface> {
+        const workerUrl = URL.createObjectURL(new Blob([pgliteWorkerSource], { type: 'text/javascript' }));
+        const worker = new Worker(workerUrl);
+        try {
+            // PGliteWorker waits for the worker forever, so fail fast if its script errors
+            const failed = new Promise<never>((resolve, reject) => {
+                worker.addEventListener('error', (event) => reject(new Error(`PGlite worker failed: ${event.message}`)));
+            });
+            const client = await Promise.race([
+                PGliteWorker.create(worker, {
+                    loadDataDir,
+                    fsBundle: resources.fsBundle,
+                    wasmModule: resources.wasmModule,
+                    relaxedDurability: this.relaxedDurability,
+                    extensions: { live },
+                    meta: {
+                        vectorExtensionBundlePath: resources.vectorExtensionBundlePath.toString()
+                    }
+                }),
+                failed
+            ]);
+            this.clientWorkers.set(client, worker);
+            console.log('PGlite is running in a worker');
+            return client;
         } catch (error) {
-            console.error('Error loading PGlite resources:', error);
+            worker.terminate();
             throw error;
+        } finally {
+            URL.revokeObjectURL(workerUrl);
+        }
+    }
+    
+    /**
+     * Close a client and terminate the worker hosting it, if any
+     * @param client The client to close
+     */
+    private async closeClient(client: PGliteInterface): Promise<void> {
+        try {
+            await client.close();
+        } finally {
+            const worker = this.clientWorkers.get(client);
+            if (worker) {
+                worker.terminate();
+                this.clientWorkers.delete(client);
+            }
+        }
+    }
+    
+    /**
+     * Dump the data directory with the requested compression
+     * A worker client always dumps with its default compression, so convert as needed.
+     * @param compression 'none' for an uncompressed tarball, 'gzip' for a gzipped one
+     */
+    private async dumpDataDir(compression: 'none' | 'gzip'): Promise<Blob> {
+        const dump = await this.pgClient!.dumpDataDir(compression);
+        const bytes = new Uint8Array(await dump.arrayBuffer());
+        const isGzipped = bytes[0] === 0x1f && bytes[1] === 0x8b;
+        
+        if (compression === 'none' && isGzipped) {
+            return new Blob([await gunzipAsync(bytes)], { type: 'application/x-tar' });
+        }
+        if (compression === 'gzip' && !isGzipped) {
+            return new Blob([await gzipAsync(bytes)], { type: 'application/x-gzip' });
+        }
+        return dump;
+    }
+    
+    /**
+     * Wrap the client so that writes mark the database dirty
+     * @param client The PGlite client to wrap
+     */
+    private async createTrackedClient(client: PGliteInterface): Promise<PGliteInterface> {
+        this.nextTransactionId = await getNextTransactionId(client);
+        return new Proxy(client, {
+            get: (target, property) => {
+                const value = Reflect.get(target, property, target);
+                if (typeof value !== 'function') {
+                    return value;
+                }
+                
+                if (property === 'query' || property === 'exec' || property === 'transaction') {
+                    return async (...args: unknown[]) => {
+                        try {
+                            return await value.apply(target, args);
+                        } finally {
+                            await this.detectWrites(target);
+                        }
+                    };
+                }
+                
+                // Bind everything else to the real client so private fields keep working
+                return value.bind(target);
+            }
+        });
+    }
+    
+    /**
+     * Mark the database dirty if anything was written since the last check
+     * Postgres only assigns a transaction id to transactions that write, so the next id
+     * moves on exactly when something was written, whatever the statements looked like.
+     * @param client The underlying client
+     */
+    private async detectWrites(client: PGliteInterface): Promise<void> {
+        try {
+            const nextTransactionId = await getNextTransactionId(client);
+            if (nextTransactionId <= this.nextTransactionId) return;
+            this.nextTransactionId = nextTransactionId;
+        } catch (error) {
+            // E.g. inside a failed transaction; assume it wrote
+            console.warn('Could not check for writes:', error);
         }
+        this.markDirty();
+    }
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+/**
+ * Get the transaction id the next transaction that writes will get
+ * @param client The PGlite client
+ */
+async function getNextTransactionId(client: PGliteInterface): Promise<number> {
+    const result = await client.query<{ xmax: string }>(
+        'SELECT pg_snapshot_xmax(pg_current_snapshot())::text AS xmax'
+    );
+    return Number(result.rows[0].xmax);
+}
+
+/**
+ * Put the values of a query's params into its SQL as literals
+ * PGlite's live extension would inline them by turning each $n into a %nL of format(),
+ * which takes the values in order, whatever n is, and also rewrites $n in strings and reads
+ * a % of the query as a format specifier. So live queries get their params inlined here
+ * with %n$L, which picks the n-th value, and are passed to the extension without params.
+ * @param client The PGlite client
+ * @param sql Query with $1, $2, ... placeholders
+ * @param params Values for the placeholders
+ * @returns The query with a literal in place of each placeholder
+ */
+async function inlineParams(client: PGliteInterface, sql: string, params: unknown[]): Promise<string> {
+    if (params.length === 0) {
+        return sql;
     }
+    
+    const template = sql.replace(SQL_PLACEHOLDER, (token, tag: string | undefined, number: string | undefined) => {
+        if (number === undefined) {
+            return token.replace(/%/g, '%%');
+        }
+        if (parseInt(number) < 1 || parseInt(number) > params.length) {
+            throw new Error(`Live query has no param for ${token}`);
+        }
+        return `%${parseInt(number)}$L`;
+    });
+    
+    // Serialize the values as the types the query expects, as a plain query would
+    const { queryParams } = await client.describeQuery(sql);
+    const result = await client.query<{ sql: string }>(
+        `SELECT format($1, ${params.map((value, index) => `$${index + 2}`).join(', ')}) AS sql`,
+        [template, ...params],
+        { paramTypes: [types.TEXT, ...params.map((value, index) => queryParams[index]?.dataTypeID ?? types.TEXT)] }
+    );
+    return result.rows[0].sql;
 }
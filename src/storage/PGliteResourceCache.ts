@@ -0,0 +1,144 @@
+import { Plugin, requestUrl, normalizePath } from 'obsidian';
+import { sha256Hex } from '../utils/HashHelpers';
+
+// Use a specific version for stability; package.json pins the same version,
+// and the build fails if the installed one differs
+export const PGLITE_VERSION = '0.2.17';
+
+/**
+ * A runtime asset PGlite needs at startup
+ */
+interface PGliteAsset {
+    fileName: string;
+    sha256: string;
+}
+
+/**
+ * Runtime assets shipped in the PGlite dist folder, pinned to PGLITE_VERSION
+ */
+const PGLITE_ASSETS = {
+    fsBundle: {
+        fileName: 'postgres.data',
+        sha256: 'b6eede253ff8c6221e38be9f753be679c031948b898ccef97ea942767a8a87ae'
+    },
+    wasm: {
+        fileName: 'postgres.wasm',
+        sha256: '545a6e035b7cef40b0feaf912477616ceb43d0334efb0251a3dd8a652e8a58a3'
+    },
+    vector: {
+        fileName: 'vector.tar.gz',
+        sha256: '9d8966d745549a341a681ad525a2d63c83a9362e21f495997c30ca1a18c99be9'
+    }
+};
+
+/**
+ * Resources required to create a PGlite instance
+ */
+export interface PGliteResources {
+    fsBundle: Blob;
+    wasmModule: WebAssembly.Module;
+    vectorExtensionBundlePath: URL;
+}
+
+/**
+ * Cache for the PGlite runtime assets
+ * Assets are read from `pglite-assets/<version>` in the plugin directory, where
+ * the build places them. Missing or corrupt files are downloaded from unpkg once
+ * and written back, so later startups work offline.
+ */
+export class PGliteResourceCache {
+    private plugin: Plugin;
+    private cacheDir: string;
+
+    /**
+     * Create a new PGliteResourceCache
+     * @param plugin Obsidian plugin instance
+     */
+    constructor(plugin: Plugin) {
+        this.plugin = plugin;
+        this.cacheDir = normalizePath(`${this.plugin.manifest.dir}/pglite-assets/${PGLITE_VERSION}`);
+    }
+
+    /**
+     * Load all PGlite resources, preferring the local cache
+     */
+    async load(): Promise<PGliteResources> {
+        const [fsBundleData, wasmData, vectorData] = await Promise.all([
+            this.loadAsset(PGLITE_ASSETS.fsBundle),
+            this.loadAsset(PGLITE_ASSETS.wasm),
+            this.loadAsset(PGLITE_ASSETS.vector)
+        ]);
+
+        const fsBundle = new Blob([fsBundleData], {
+            type: 'application/octet-stream'
+        });
+
+        const wasmModule = await WebAssembly.compile(wasmData);
+
+        // PGlite fetches extension bundles by URL, so serve the cached tarball from a blob URL
+        const vectorExtensionBundlePath = new URL(
+            URL.createObjectURL(new Blob([vectorData], { type: 'application/gzip' }))
+        );
+
+        return { fsBundle, wasmModule, vectorExtensionBundlePath };
+    }
+
+    /**
+     * Release object URLs created by load()
+     * @param resources Resources returned by load()
+     */
+    release(resources: PGliteResources): void {
+        URL.revokeObjectURL(resources.vectorExtensionBundlePath.toString());
+    }
+
+    /**
+     * Load a single asset from the cache, downloading it if missing or corrupt
+     * @param asset The asset to load
+     * @returns The verified asset contents
+     */
+    private async loadAsset(asset: PGliteAsset): Promise<ArrayBuffer> {
+        const adapter = this.plugin.app.vault.adapter;
+        const assetPath = normalizePath(`${this.cacheDir}/${asset.fileName}`);
+
+        if (await adapter.exists(assetPath)) {
+            const cached = await adapter.readBinary(assetPath);
+            if (await sha256Hex(cached) === asset.sha256) {
+                return cached;
+            }
+            console.warn(`Cached PGlite asset ${assetPath} failed integrity check, downloading again`);
+        }
+
+        const data = await this.downloadAsset(asset);
+
+        try {
+            if (!await adapter.exists(this.cacheDir)) {
+                await adapter.mkdir(this.cacheDir);
+            }
+            await adapter.writeBinary(assetPath, data);
+            console.log('Cached PGlite asset at:', assetPath);
+        } catch (error) {
+            // A failed cache write only costs another download next time
+            console.warn(`Could not cache PGlite asset ${assetPath}:`, error);
+        }
+
+        return data;
+    }
+
+    /**
+     * Download an asset from unpkg and verify its hash
+     * @param asset The asset to download
+     * @returns The verified asset contents
+     */
+    private async downloadAsset(asset: PGliteAsset): Promise<ArrayBuffer> {
+        const url = `https://unpkg.com/@electric-sql/pglite@${PGLITE_VERSION}/dist/${asset.fileName}`;
+        console.log('Downloading PGlite asset from:', url);
+
+        const response = await requestUrl(url);
+        const hash = await sha256Hex(response.arrayBuffer);
+        if (hash !== asset.sha256) {
+            throw new Error(`Integrity check failed for ${asset.fileName}: expected ${asset.sha256}, got ${hash}`);
+        }
+
+        return response.arrayBuffer;
+    }
+}
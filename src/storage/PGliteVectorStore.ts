@@ -1,20 +1,253 @@
-import { PGliteProvider } from './PGliteProvider';
+import { Transaction } from '@electric-sql/pglite';
+import { LiveQuerySubscription, PGliteProvider } from './PGliteProvider';
+import { NoteChunk } from '../indexing/MarkdownChunker';
+import { quoteIdent } from './SqlDump';
+import { NoteFilter, toVectorSearchFilter } from '../search/NoteFilter';
+import { VectorTableCatalog, VectorTableModel } from './VectorTableCatalog';
+
+/**
+ * A note to store with the embeddings of its chunks
+ */
+export interface NoteRecord {
+    // Vault path; the note's chunks are unique by path and chunk index
+    path: string;
+    basename: string;
+    // Modification time in milliseconds since the epoch
+    mtime: number;
+    // SHA-256 of the content, used to skip unchanged notes
+    contentHash: string;
+    frontmatter: Record<string, unknown>;
+    // Tags without the leading #
+    tags: string[];
+    content: string;
+}
+
+/**
+ * A chunk of a note with its embedding vector
+ */
+export interface EmbeddedChunk {
+    chunk: NoteChunk;
+    vector: number[];
+}
+
+/**
+ * A row returned by a similarity search
+ */
+export interface VectorSearchResult {
+    id: number;
+    // Vault path of the note, or null for content not stored from a note
+    path: string | null;
+    // Headings the chunk is under, outermost first
+    headingPath: string[];
+    // Line range of the chunk in the note, starting at 1
+    startLine: number | null;
+    endLine: number | null;
+    content: string;
+    // Distance to the query vector by the table's metric; smaller is more similar
+    distance: number;
+    // Similarity to the query vector between 0 and 1; larger is more similar.
+    // In a hybrid search, the fused score of the keyword and semantic rankings.
+    score: number;
+    // Parts of the score from the keyword and the semantic ranking; hybrid search only
+    keywordScore?: number;
+    semanticScore?: number;
+}
+
+/**
+ * SQL condition that restricts a similarity search
+ * The condition can reference columns of the vector table and its params as $1, $2, ...
+ */
+export interface VectorSearchFilter {
+    where: string;
+    params?: unknown[];
+}
+
+/**
+ * Options for a similarity search
+ */
+export interface VectorSearchOptions {
+    // Maximum number of results (default: 5)
+    limit?: number;
+    // Conditions on the notes, or an SQL condition, the results must match
+    filter?: NoteFilter | VectorSearchFilter;
+    // Return only the most similar chunk of each note (default: false)
+    bestChunkPerNote?: boolean;
+    // Leave out results with a lower score, so fewer than limit may be returned (default: 0).
+    // In a hybrid search it applies to the similarity of results without a keyword match.
+    minScore?: number;
+    // Text to also find by full-text search, fusing both rankings (hybrid search)
+    keywords?: string;
+    // Share of the keyword ranking in the fused score, between 0 and 1 (default: 0.3)
+    keywordWeight?: number;
+}
+
+/**
+ * Default share of the keyword ranking in a hybrid search
+ */
+export const DEFAULT_KEYWORD_WEIGHT = 0.3;
+
+// Reciprocal rank fusion constant; higher values flatten the difference between ranks
+const RRF_K = 60;
+
+/**
+ * How the distance between two vectors is measured
+ * - cosine: angle between the vectors, ignoring their length
+ * - l2: Euclidean distance
+ * - inner-product: negative dot product; equals cosine for normalized vectors and is faster
+ */
+export type DistanceMetric = 'cosine' | 'l2' | 'inner-product';
+
+/**
+ * pgvector operator and index operator class of each metric, with the SQL that maps
+ * a distance to a score between 0 and 1
+ */
+const METRICS: Record<DistanceMetric, { operator: string, operatorClass: string, score: string }> = {
+    // Cosine distance is 1 - cosine similarity, between 0 and 2
+    'cosine': { operator: '<=>', operatorClass: 'vector_cosine_ops', score: '1 - distance / 2' },
+    // Euclidean distance starts at 0 and is unbounded
+    'l2': { operator: '<->', operatorClass: 'vector_l2_ops', score: '1 / (1 + distance)' },
+    // The negative inner product is between -1 and 1 for normalized vectors
+    'inner-product': { operator: '<#>', operatorClass: 'vector_ip_ops', score: '(1 - distance) / 2' }
+};
+
+// Largest deviation from length 1 of a vector that counts as normalized
+const UNIT_LENGTH_TOLERANCE = 1e-3;
+
+/**
+ * Where the embeddings of a vector table come from, as recorded in vector_tables
+ */
+export interface EmbeddingProvenance {
+    // Provider and model of the embeddings, or null if the table has no model
+    provider: string | null;
+    model: string | null;
+    dimensions: number | null;
+    metric: DistanceMetric;
+    // Whether the embeddings have length 1, or null until the first one is stored
+    normalized: boolean | null;
+    createdAt: Date;
+    // Time of the last change to the embeddings
+    updatedAt: Date;
+}
+
+/**
+ * Thrown when vectors do not match the embeddings recorded for a vector table,
+ * because they come from another model or have other dimensions or normalization
+ * Mixing them would make distances between the vectors meaningless.
+ */
+export class EmbeddingProvenanceError extends Error {
+    /**
+     * Create a new EmbeddingProvenanceError
+     * @param tableName Name of the vector table
+     * @param reason How the vectors differ from the table's embeddings
+     */
+    constructor(public readonly tableName: string, reason: string) {
+        super(`Vector table ${tableName} ${reason}`);
+        this.name = 'EmbeddingProvenanceError';
+    }
+}
+
+/**
+ * Change to the vectors of a vector table, emitted by the provider as 'index-change'
+ * - insert: the vectors with the given ids were added
+ * - update: the vectors with the given ids were replaced, e.g. because their note changed or moved
+ * - delete: the vectors with the given ids were removed because their note was deleted
+ * - reset: the table was dropped and recreated empty
+ */
+export interface IndexChange {
+    table: string;
+    type: 'insert' | 'update' | 'delete' | 'reset';
+    ids: number[];
+}
+
+/**
+ * Approximate nearest-neighbour index on the embedding column
+ * - hnsw: graph index with good recall that can be built on an empty table
+ * - ivfflat: clusters the vectors into lists, so it is built once the table has data
+ * - none: exact search by a sequential scan
+ */
+export type VectorIndexType = 'hnsw' | 'ivfflat' | 'none';
+
+/**
+ * How the embedding index is built
+ */
+export interface VectorIndexOptions {
+    type: VectorIndexType;
+    // HNSW: connections per node
+    m: number;
+    // HNSW: size of the candidate list while building
+    efConstruction: number;
+    // IVFFlat: number of lists the vectors are clustered into
+    lists: number;
+}
+
+/**
+ * How thoroughly the embedding index is searched; higher is more accurate but slower
+ */
+export interface VectorSearchTuning {
+    // HNSW: size of the candidate list while searching
+    efSearch: number;
+    // IVFFlat: number of lists searched
+    probes: number;
+}
+
+/**
+ * Options for a vector store
+ */
+export interface VectorStoreOptions {
+    index?: VectorIndexOptions;
+    search?: VectorSearchTuning;
+    // Embedding model the table holds, recorded in the catalog when the table is created
+    model?: VectorTableModel;
+}
+
+/**
+ * Default embedding index options, following the pgvector defaults
+ */
+export const DEFAULT_VECTOR_INDEX_OPTIONS: VectorIndexOptions = {
+    type: 'hnsw',
+    m: 16,
+    efConstruction: 64,
+    lists: 100
+};
+
+/**
+ * Default search tuning, following the pgvector defaults
+ */
+export const DEFAULT_VECTOR_SEARCH_TUNING: VectorSearchTuning = {
+    efSearch: 40,
+    probes: 1
+};
+
+/**
+ * The embedding index of a vector table
+ */
+export interface VectorIndexInfo {
+    name: string;
+    method: 'hnsw' | 'ivfflat';
+    // Size on disk in bytes
+    size: number;
+    // Build parameters, e.g. { m: '16', ef_construction: '64' }
+    parameters: Record<string, string>;
+}
 
 /**
  * Implementation of VectorStore using PGlite
  */
 export class PGliteVectorStore {
+    private metric: DistanceMetric | null = null;
+    
     /**
      * Create a new PGliteVectorStore
      * @param provider PGlite provider
      * @param dimensions Number of dimensions for vectors
      * @param tableName Name of the vector table
-     * @param relaxedDurability Whether to use relaxed durability for better performance
+     * @param options Index and search options
      */
     constructor(
         private provider: PGliteProvider,
         private dimensions: number,
-        private tableName: string = 'vector_test'        
+        private tableName: string = 'vector_test',
+        private options: VectorStoreOptions = {}
     ) {}
     
     /**
@@ -52,22 +285,24 @@ export class PGliteVectorStore {
             const pgClient = this.provider.getClient();
             
             // Check if table exists
-            const tableExists = await pgClient.query(
-                `SELECT EXISTS (SELECT FROM pg_tables WHERE tablename = '${this.tableName}')`
+            const tableExists = await pgClient.query<{ exists: boolean }>(
+                'SELECT EXISTS (SELECT FROM pg_tables WHERE tablename = $1)',
+                [this.tableName]
             );
             
-            if (!(tableExists.rows[0] as {exists: boolean}).exists) {
+            if (!tableExists.rows[0].exists) {
                 return { exists: false };
             }
             
             // Get the dimensions of the vector column
-            // For pgvector, vector dimensions = (atttypmod - 8) / 4
-            const dimensionsResult = await pgClient.query(
-                `SELECT atttypmod as dimensions FROM pg_attribute WHERE attrelid = '${this.tableName}'::regclass AND attname = 'embedding'`
+            // For pgvector, the type modifier is the number of dimensions, or -1 if it has none
+            const dimensionsResult = await pgClient.query<{ dimensions: number }>(
+                `SELECT atttypmod AS dimensions FROM pg_attribute WHERE attrelid = to_regclass(quote_ident($1)) AND attname = 'embedding'`,
+                [this.tableName]
             );
             
-            if (dimensionsResult.rows.length > 0) {
-                const dimensions = parseInt((dimensionsResult.rows[0] as {dimensions: string}).dimensions);
+            const dimensions = dimensionsResult.rows[0]?.dimensions;
+            if (dimensions !== undefined && dimensions > 0) {
                 return { exists: true, dimensions };
             }
             
@@ -90,28 +325,232 @@ export class PGliteVectorStore {
         try {
             const pgClient = this.provider.getClient();
             
+            // An existing table is kept, so it must hold embeddings of the same model
+            if (!force) {
+                await this.validateProvenance([]);
+            }
+            
             // Drop table if force is true and table exists
             if (force) {
+                // Snapshot first so the dropped vectors can be restored
+                if ((await this.checkTableExists()).exists) {
+                    await this.provider.createBackup(`before-drop-${this.tableName}`);
+                }
                 await pgClient.query(`DROP TABLE IF EXISTS ${this.tableName}`);
                 console.log(`Dropped existing vector table: ${this.tableName}`);
+                this.notifyChange('reset', []);
             }
             
             // Create table with the specified dimensions
             await pgClient.query(`
                 CREATE TABLE IF NOT EXISTS ${this.tableName} (
                     id SERIAL PRIMARY KEY,
+                    path TEXT,
+                    chunk_index INTEGER NOT NULL DEFAULT 0,
+                    heading_path TEXT[] NOT NULL DEFAULT '{}',
+                    start_line INTEGER,
+                    end_line INTEGER,
+                    basename TEXT,
+                    mtime TIMESTAMPTZ,
+                    content_hash TEXT,
+                    frontmatter JSONB NOT NULL DEFAULT '{}',
+                    tags TEXT[] NOT NULL DEFAULT '{}',
                     content TEXT,
-                    embedding VECTOR(${this.dimensions})
+                    embedding VECTOR(${this.dimensions}),
+                    content_tsv TSVECTOR GENERATED ALWAYS AS (
+                        setweight(to_tsvector('simple', coalesce(basename, '')), 'A') ||
+                        to_tsvector('simple', coalesce(content, ''))
+                    ) STORED,
+                    UNIQUE (path, chunk_index)
                 )
             `);
+            await pgClient.query(
+                `CREATE INDEX IF NOT EXISTS ${this.tableName}_content_tsv_idx ON ${this.tableName} USING gin (content_tsv)`
+            );
             
             console.log(`Vector table ${this.tableName} created with ${this.dimensions} dimensions`);
+            
+            // Record the table in the catalog; a recreated table starts without embeddings
+            await pgClient.query(
+                `INSERT INTO vector_tables (name, dimensions) VALUES ($1, $2)
+                 ON CONFLICT (name) DO UPDATE SET dimensions = excluded.dimensions` +
+                (force ? ', normalized = NULL, created_at = now(), updated_at = now()' : ''),
+                [this.tableName, (await this.checkTableExists()).dimensions ?? this.dimensions]
+            );
+            if (this.options.model) {
+                await new VectorTableCatalog(this.provider).register(this.tableName, this.options.model, force);
+            }
+            await this.ensureIndex();
         } catch (error) {
             console.error(`Error creating vector table ${this.tableName}:`, error);
+            if (error instanceof EmbeddingProvenanceError) throw error;
             throw new Error(`Failed to create vector table ${this.tableName}: ${error}`);
         }
     }
     
+    /**
+     * Get the distance metric the table is searched by
+     */
+    async getMetric(): Promise<DistanceMetric> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        if (!this.metric) {
+            const result = await this.provider.getClient().query<{ metric: DistanceMetric }>(
+                'SELECT metric FROM vector_tables WHERE name = $1',
+                [this.tableName]
+            );
+            this.metric = result.rows[0]?.metric ?? 'cosine';
+        }
+        return this.metric;
+    }
+    
+    /**
+     * Change the distance metric the table is searched by
+     * The metric is kept when the table is recreated. An existing embedding index is
+     * rebuilt with the operator class of the new metric.
+     * @param metric The new metric
+     */
+    async setMetric(metric: DistanceMetric): Promise<void> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        await this.provider.getClient().query(
+            `INSERT INTO vector_tables (name, metric) VALUES ($1, $2)
+             ON CONFLICT (name) DO UPDATE SET metric = excluded.metric`,
+            [this.tableName, metric]
+        );
+        this.metric = metric;
+        console.log(`Vector table ${this.tableName} now searched by ${metric} distance`);
+        
+        if (await this.getIndexInfo()) {
+            await this.rebuildIndex();
+        }
+    }
+    
+    /**
+     * Get the model, dimensions and normalization recorded for the table's embeddings
+     * @returns The provenance, or null if the table is not in the catalog
+     */
+    async getProvenance(): Promise<EmbeddingProvenance | null> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        const result = await this.provider.getClient().query<EmbeddingProvenance>(
+            `SELECT provider, model, dimensions, metric, normalized,
+                    created_at AS "createdAt", updated_at AS "updatedAt"
+             FROM vector_tables WHERE name = $1`,
+            [this.tableName]
+        );
+        return result.rows[0] ?? null;
+    }
+    
+    /**
+     * Get the embedding index of the table
+     * @returns The index, or null if the table has none
+     */
+    async getIndexInfo(): Promise<VectorIndexInfo | null> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        const result = await this.provider.getClient().query<{ name: string, method: 'hnsw' | 'ivfflat', size: number, reloptions: string[] | null }>(
+            `SELECT c.relname AS name, am.amname AS method, pg_relation_size(c.oid)::float8 AS size, c.reloptions
+             FROM pg_index i
+             JOIN pg_class c ON c.oid = i.indexrelid
+             JOIN pg_am am ON am.oid = c.relam
+             WHERE i.indrelid = to_regclass($1) AND am.amname IN ('hnsw', 'ivfflat')
+             ORDER BY c.relname
+             LIMIT 1`,
+            [this.tableName]
+        );
+        const row = result.rows[0];
+        if (!row) {
+            return null;
+        }
+        
+        // reloptions are stored as 'name=value'
+        const parameters: Record<string, string> = {};
+        for (const option of row.reloptions ?? []) {
+            const [name, value] = option.split('=');
+            parameters[name] = value;
+        }
+        return { name: row.name, method: row.method, size: row.size, parameters };
+    }
+    
+    /**
+     * Create the configured embedding index if the table has none
+     * An IVFFlat index is only created once the table has at least as many rows as
+     * lists, as its lists are computed from the vectors present when it is built.
+     * An existing index is kept even if its options differ; use rebuildIndex() to
+     * apply new options.
+     * @returns True if an index was created
+     */
+    async ensureIndex(): Promise<boolean> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        const options = this.options.index ?? DEFAULT_VECTOR_INDEX_OPTIONS;
+        if (options.type === 'none' || await this.getIndexInfo()) {
+            return false;
+        }
+        
+        if (options.type === 'ivfflat') {
+            const count = await this.provider.getClient().query<{ count: number }>(
+                `SELECT count(*)::int AS count FROM ${this.tableName}`
+            );
+            if (count.rows[0].count < options.lists) {
+                return false;
+            }
+        }
+        
+        await this.provider.getClient().query(this.getCreateIndexSql(options, await this.getMetric()));
+        console.log(`Created ${options.type} index on ${this.tableName}`);
+        return true;
+    }
+    
+    /**
+     * Drop the embedding index and build it again with the configured options
+     * Needed after changing the index options, and for IVFFlat after the table grew a lot.
+     * @returns The new index, or null if the index type is none
+     */
+    async rebuildIndex(): Promise<VectorIndexInfo | null> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        const options = this.options.index ?? DEFAULT_VECTOR_INDEX_OPTIONS;
+        const metric = await this.getMetric();
+        try {
+            await this.provider.getClient().transaction(async (tx) => {
+                const existing = await tx.query<{ name: string }>(
+                    `SELECT c.relname AS name
+                     FROM pg_index i
+                     JOIN pg_class c ON c.oid = i.indexrelid
+                     JOIN pg_am am ON am.oid = c.relam
+                     WHERE i.indrelid = to_regclass($1) AND am.amname IN ('hnsw', 'ivfflat')`,
+                    [this.tableName]
+                );
+                for (const index of existing.rows) {
+                    await tx.query(`DROP INDEX ${quoteIdent(index.name)}`);
+                }
+                if (options.type !== 'none') {
+                    await tx.query(this.getCreateIndexSql(options, metric));
+                }
+            });
+        } catch (error) {
+            console.error(`Error rebuilding index on ${this.tableName}:`, error);
+            throw new Error(`Failed to rebuild index on ${this.tableName}: ${error}`);
+        }
+        
+        console.log(`Rebuilt ${options.type} index on ${this.tableName}`);
+        return this.getIndexInfo();
+    }
+    
     /**
      * Insert a vector into the store
      * @param content Text content associated with the vector
@@ -124,40 +563,223 @@ export class PGliteVectorStore {
         }
         
         const pgClient = this.provider.getClient();
+        const normalized = await this.validateProvenance([vector]);
 
         // Insert the vector data
-        const result = await pgClient.query(
-            `INSERT INTO ${this.tableName} (content, embedding) VALUES ($1, $2) RETURNING id`,
-            [content, JSON.stringify(vector)]
-        );
+        const id = await pgClient.transaction(async (tx) => {
+            const result = await tx.query<{ id: number }>(
+                `INSERT INTO ${this.tableName} (content, embedding) VALUES ($1, $2) RETURNING id`,
+                [content, JSON.stringify(vector)]
+            );
+            await this.recordWrite(tx, normalized);
+            return result.rows[0].id;
+        });
         
-        const id = (result.rows[0] as { id: number }).id;
         console.log(`Vector inserted into ${this.tableName} with ID: ${id}`);
+        this.notifyChange('insert', [id]);
         return id;
     }
     
+    /**
+     * Get the content hash stored for a note
+     * @param path Vault path of the note
+     * @returns The hash, or null if the note is not stored
+     */
+    async getContentHash(path: string): Promise<string | null> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        const result = await this.provider.getClient().query<{ content_hash: string | null }>(
+            `SELECT content_hash FROM ${this.tableName} WHERE path = $1 LIMIT 1`,
+            [path]
+        );
+        return result.rows[0]?.content_hash ?? null;
+    }
+    
+    /**
+     * Store the chunks of a note, replacing the stored chunks of the same path
+     * @param note The note
+     * @param chunks The note's chunks with their embedding vectors
+     * @returns IDs of the stored chunks, in chunk order
+     */
+    async upsertNote(note: NoteRecord, chunks: EmbeddedChunk[]): Promise<number[]> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        const pgClient = this.provider.getClient();
+        const normalized = await this.validateProvenance(chunks.map(chunk => chunk.vector));
+        
+        // Replace all chunks at once, as the number of chunks may have changed
+        const { ids, replaced } = await pgClient.transaction(async (tx) => {
+            const deleted = await tx.query(`DELETE FROM ${this.tableName} WHERE path = $1`, [note.path]);
+            const ids: number[] = [];
+            for (const { chunk, vector } of chunks) {
+                const result = await tx.query<{ id: number }>(
+                    `INSERT INTO ${this.tableName}
+                        (path, chunk_index, heading_path, start_line, end_line, basename, mtime, content_hash, frontmatter, tags, content, embedding)
+                     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::jsonb, $10, $11, $12)
+                     RETURNING id`,
+                    [
+                        note.path,
+                        chunk.index,
+                        chunk.headingPath,
+                        chunk.startLine,
+                        chunk.endLine,
+                        note.basename,
+                        new Date(note.mtime),
+                        note.contentHash,
+                        JSON.stringify(note.frontmatter),
+                        note.tags,
+                        chunk.content,
+                        JSON.stringify(vector)
+                    ]
+                );
+                ids.push(result.rows[0].id);
+            }
+            await this.recordWrite(tx, normalized);
+            return { ids, replaced: (deleted.affectedRows ?? 0) > 0 };
+        });
+        
+        console.log(`Note ${note.path} stored in ${this.tableName} as ${ids.length} chunks`);
+        this.notifyChange(replaced ? 'update' : 'insert', ids);
+        return ids;
+    }
+    
+    /**
+     * Move the chunks of a note to its new path
+     * Chunks already stored for the new path are replaced.
+     * @param oldPath Previous vault path of the note
+     * @param newPath New vault path of the note
+     * @param basename New name of the note
+     * @returns IDs of the moved chunks
+     */
+    async renameNote(oldPath: string, newPath: string, basename: string): Promise<number[]> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        const ids = await this.provider.getClient().transaction(async (tx) => {
+            await tx.query(`DELETE FROM ${this.tableName} WHERE path = $1`, [newPath]);
+            const result = await tx.query<{ id: number }>(
+                `UPDATE ${this.tableName} SET path = $2, basename = $3 WHERE path = $1 RETURNING id`,
+                [oldPath, newPath, basename]
+            );
+            if (result.rows.length > 0) {
+                await this.recordWrite(tx, null);
+            }
+            return result.rows.map(row => row.id);
+        });
+        
+        if (ids.length > 0) {
+            console.log(`Note ${oldPath} moved to ${newPath} in ${this.tableName}`);
+            this.notifyChange('update', ids);
+        }
+        return ids;
+    }
+    
+    /**
+     * Delete the chunks of a note
+     * @param path Vault path of the note
+     * @returns IDs of the deleted chunks
+     */
+    async deleteNote(path: string): Promise<number[]> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        const ids = await this.provider.getClient().transaction(async (tx) => {
+            const result = await tx.query<{ id: number }>(
+                `DELETE FROM ${this.tableName} WHERE path = $1 RETURNING id`,
+                [path]
+            );
+            if (result.rows.length > 0) {
+                await this.recordWrite(tx, null);
+            }
+            return result.rows.map(row => row.id);
+        });
+        
+        if (ids.length > 0) {
+            console.log(`Note ${path} deleted from ${this.tableName}`);
+            this.notifyChange('delete', ids);
+        }
+        return ids;
+    }
+    
+    /**
+     * Get the vault paths of the notes stored in the table
+     */
+    async getNotePaths(): Promise<string[]> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        const result = await this.provider.getClient().query<{ path: string }>(
+            `SELECT DISTINCT path FROM ${this.tableName} WHERE path IS NOT NULL ORDER BY path`
+        );
+        return result.rows.map(row => row.path);
+    }
+    
+    /**
+     * Get the content of the rows that are not chunks of a note, e.g. those stored with insertVector()
+     * @returns The contents, oldest row first
+     */
+    async getStandaloneContents(): Promise<string[]> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        const result = await this.provider.getClient().query<{ content: string }>(
+            `SELECT content FROM ${this.tableName} WHERE path IS NULL ORDER BY id`
+        );
+        return result.rows.map(row => row.content);
+    }
+    
     /**
      * Search for vectors similar to the given vector
      * @param vector The query vector
-     * @param limit Maximum number of results to return
-     * @returns Array of matching results with similarity scores
+     * @param options Search options
+     * @returns Array of matching results with distances and scores, most similar first
      */
-    async searchSimilar(vector: number[], limit: number = 5): Promise<any[]> {
+    async searchSimilar(vector: number[], options: VectorSearchOptions = {}): Promise<VectorSearchResult[]> {
         if (!this.isReady()) {
             throw new Error('PGlite provider is not ready');
         }
         
         const pgClient = this.provider.getClient();
+        await this.validateProvenance([vector]);
+        await this.applySearchTuning();
             
         // Search for similar vectors
-        const result = await pgClient.query(
-            `SELECT id, content, embedding <=> $1 as distance FROM ${this.tableName} ORDER BY distance LIMIT $2`,
-            [JSON.stringify(vector), limit]
-        );
+        const { sql, params } = this.buildSearchQuery(vector, options, await this.getMetric());
+        const result = await pgClient.query<VectorSearchResult>(sql, params);
             
         return result.rows;
     }
     
+    /**
+     * Search for similar vectors and call back with new results whenever the table changes
+     * @param vector The query vector
+     * @param options Search options
+     * @param callback Called with the current results
+     * @returns Subscription to end the live search
+     */
+    async watchSimilar(
+        vector: number[],
+        options: VectorSearchOptions,
+        callback: (results: VectorSearchResult[]) => void
+    ): Promise<LiveQuerySubscription> {
+        if (!this.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        
+        await this.validateProvenance([vector]);
+        await this.applySearchTuning();
+        const { sql, params } = this.buildSearchQuery(vector, options, await this.getMetric());
+        return this.provider.liveQuery<VectorSearchResult>(sql, params, callback);
+    }
+    
     /**
      * Save the current state of the vector store
      */
@@ -173,4 +795,258 @@ export class PGliteVectorStore {
     getTableName(): string {
         return this.tableName;
     }
+    
+    /**
+     * Build the statement that creates the embedding index
+     * @param options Index options; the type must not be none
+     * @param metric Distance metric the index is searched by
+     */
+    private getCreateIndexSql(options: VectorIndexOptions, metric: DistanceMetric): string {
+        const parameters = options.type === 'hnsw'
+            ? `m = ${Math.floor(options.m)}, ef_construction = ${Math.floor(options.efConstruction)}`
+            : `lists = ${Math.floor(options.lists)}`;
+        return `CREATE INDEX ${this.tableName}_embedding_idx ON ${this.tableName} ` +
+            `USING ${options.type} (embedding ${METRICS[metric].operatorClass}) WITH (${parameters})`;
+    }
+    
+    /**
+     * Set how thoroughly the index is searched for this session
+     * set_config() is used instead of SET, which would count as a write.
+     */
+    private async applySearchTuning(): Promise<void> {
+        const tuning = this.options.search ?? DEFAULT_VECTOR_SEARCH_TUNING;
+        await this.provider.getClient().query(
+            `SELECT set_config('hnsw.ef_search', $1, false), set_config('ivfflat.probes', $2, false)`,
+            [String(Math.floor(tuning.efSearch)), String(Math.floor(tuning.probes))]
+        );
+    }
+    
+    /**
+     * Build the similarity search query
+     * The nearest rows are found first, so the embedding index can be used, and then
+     * cut off by score.
+     * @param vector The query vector
+     * @param options Search options
+     * @param metric Distance metric of the table
+     */
+    private buildSearchQuery(
+        vector: number[],
+        options: VectorSearchOptions,
+        metric: DistanceMetric
+    ): { sql: string, params: unknown[] } {
+        if (options.keywords?.trim()) {
+            return this.buildHybridSearchQuery(vector, options, metric);
+        }
+        
+        const { bestChunkPerNote = false } = options;
+        const filter = toVectorSearchFilter(options.filter);
+        // Placeholders are numbered in the order they appear in the query, as live queries require
+        const params: unknown[] = [];
+        const param = (value: unknown) => {
+            params.push(value);
+            return `$${params.length}`;
+        };
+        const columns = `id, path, heading_path AS "headingPath", start_line AS "startLine", end_line AS "endLine", content, ` +
+            `embedding ${METRICS[metric].operator} ${param(JSON.stringify(vector))} AS distance`;
+        const where = filter ? `WHERE (${bindFilter(filter, param)})` : '';
+        const limitParam = param(options.limit ?? 5);
+        const minScoreParam = param(options.minScore ?? 0);
+
+        // Rows without a path are not chunks of a note and stand on their own
+        const nearest = bestChunkPerNote
+            ? `SELECT * FROM (
+                    SELECT DISTINCT ON (coalesce(path, id::text)) ${columns}
+                    FROM ${this.tableName} ${where}
+                    ORDER BY coalesce(path, id::text), distance
+                ) AS best ORDER BY distance LIMIT ${limitParam}`
+            : `SELECT ${columns} FROM ${this.tableName} ${where} ORDER BY distance LIMIT ${limitParam}`;
+        
+        const score = `greatest(0, least(1, ${METRICS[metric].score}))::float8`;
+        return {
+            sql: `SELECT nearest.*, ${score} AS score
+                FROM (${nearest}) AS nearest
+                WHERE ${score} >= ${minScoreParam}
+                ORDER BY distance`,
+            params
+        };
+    }
+    
+    /**
+     * Build the hybrid search query
+     * The nearest chunks and the chunks matching the keywords best are ranked
+     * separately and fused with reciprocal rank fusion. Each ranking contributes its
+     * weight times (k + 1) / (k + rank), so a chunk ranked first by both scores 1.
+     * @param vector The query vector
+     * @param options Search options with keywords
+     * @param metric Distance metric of the table
+     */
+    private buildHybridSearchQuery(
+        vector: number[],
+        options: VectorSearchOptions,
+        metric: DistanceMetric
+    ): { sql: string, params: unknown[] } {
+        const { bestChunkPerNote = false } = options;
+        const filter = toVectorSearchFilter(options.filter);
+        const limit = options.limit ?? 5;
+        // Rank more candidates than requested, so chunks found by only one ranking can still make it
+        const candidates = Math.max(limit * 4, 40);
+        // Placeholders are numbered in the order they appear in the query and used once, as
+        // live queries require, so the values used in several places are passed again each time
+        const params: unknown[] = [];
+        const param = (value: unknown) => {
+            params.push(value);
+            return `$${params.length}`;
+        };
+        const distance = () => `embedding ${METRICS[metric].operator} ${param(JSON.stringify(vector))}`;
+        const filterCondition = () => filter ? `AND (${bindFilter(filter, param)})` : '';
+        const weight = options.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT;
+        const similarity = `greatest(0, least(1, ${METRICS[metric].score}))`;
+        
+        const scored = `WITH semantic AS (
+                SELECT id, row_number() OVER (ORDER BY distance) AS rank
+                FROM (
+                    SELECT id, ${distance()} AS distance FROM ${this.tableName}
+                    WHERE true ${filterCondition()}
+                    ORDER BY distance LIMIT ${param(candidates)}
+                ) AS nearest
+            ), keyword AS (
+                SELECT id, row_number() OVER (ORDER BY ts_rank(content_tsv, query) DESC) AS rank
+                FROM ${this.tableName}, websearch_to_tsquery('simple', ${param(options.keywords!.trim())}) AS query
+                WHERE content_tsv @@ query ${filterCondition()}
+                ORDER BY rank LIMIT ${param(candidates)}
+            ), fused AS (
+                SELECT coalesce(s.id, k.id) AS id,
+                    coalesce((1 - ${param(weight)}::float8) * ${RRF_K + 1} / (${RRF_K} + s.rank), 0) AS semantic_score,
+                    coalesce(${param(weight)}::float8 * ${RRF_K + 1} / (${RRF_K} + k.rank), 0) AS keyword_score
+                FROM semantic s FULL JOIN keyword k ON k.id = s.id
+            )
+            SELECT t.id, t.path, t.heading_path AS "headingPath", t.start_line AS "startLine", t.end_line AS "endLine", t.content,
+                t.${distance()} AS distance,
+                (f.keyword_score + f.semantic_score)::float8 AS score,
+                f.keyword_score::float8 AS "keywordScore",
+                f.semantic_score::float8 AS "semanticScore"
+            FROM fused f JOIN ${this.tableName} t ON t.id = f.id`;
+        
+        // Rows without a path are not chunks of a note and stand on their own
+        const results = bestChunkPerNote
+            ? `SELECT DISTINCT ON (coalesce(path, id::text)) * FROM (${scored}) AS scored
+                ORDER BY coalesce(path, id::text), score DESC`
+            : scored;
+        
+        return {
+            sql: `SELECT * FROM (${results}) AS results
+                WHERE "keywordScore" > 0 OR ${similarity} >= ${param(options.minScore ?? 0)}
+                ORDER BY score DESC
+                LIMIT ${param(limit)}`,
+            params
+        };
+    }
+    
+    /**
+     * Check that vectors can be stored in the table or searched by
+     * The catalog's model must be the store's, and the vectors must have the table's
+     * dimensions and be normalized exactly when its embeddings are.
+     * @param vectors Vectors to store or search by; none only checks the model
+     * @returns Whether the table's embeddings are normalized, or null if it is not known yet
+     */
+    private async validateProvenance(vectors: number[][]): Promise<boolean | null> {
+        const provenance = await this.getProvenance();
+        const model = this.options.model;
+        if (model && provenance?.model && (provenance.provider !== model.provider || provenance.model !== model.name)) {
+            throw new EmbeddingProvenanceError(
+                this.tableName,
+                `holds embeddings of ${provenance.model} (${provenance.provider}), not of ${model.name} (${model.provider})`
+            );
+        }
+        
+        const dimensions = provenance?.dimensions ?? (await this.checkTableExists()).dimensions;
+        if (dimensions && dimensions !== this.dimensions) {
+            throw new EmbeddingProvenanceError(this.tableName, `has ${dimensions} dimensions, but the model has ${this.dimensions}`);
+        }
+        
+        let normalized = provenance?.normalized ?? null;
+        if (normalized === null && vectors.length > 0) {
+            // Embeddings stored before normalization was recorded, e.g. in an adopted vector_test
+            normalized = await this.getStoredNormalization();
+        }
+        for (const vector of vectors) {
+            if (vector.length !== this.dimensions) {
+                throw new EmbeddingProvenanceError(this.tableName, `has ${this.dimensions} dimensions, but a vector has ${vector.length}`);
+            }
+            const isUnit = isUnitLength(vector);
+            if (normalized === null) {
+                normalized = isUnit;
+            } else if (isUnit !== normalized) {
+                throw new EmbeddingProvenanceError(
+                    this.tableName,
+                    normalized ? 'holds normalized embeddings, but a vector is not normalized' : 'holds embeddings that are not normalized, but a vector is'
+                );
+            }
+        }
+        return normalized;
+    }
+    
+    /**
+     * Check whether the embeddings stored in the table have length 1
+     * @returns Whether all of them do, or null if the table is empty
+     */
+    private async getStoredNormalization(): Promise<boolean | null> {
+        const result = await this.provider.getClient().query<{ normalized: boolean | null }>(
+            `SELECT bool_and(abs(vector_norm(embedding) - 1) <= $1) AS normalized FROM ${this.tableName}`,
+            [UNIT_LENGTH_TOLERANCE]
+        );
+        return result.rows[0]?.normalized ?? null;
+    }
+    
+    /**
+     * Record a change to the table's embeddings in the catalog
+     * @param tx Transaction of the change
+     * @param normalized Whether the stored vectors are normalized
+     */
+    private async recordWrite(tx: Transaction, normalized: boolean | null): Promise<void> {
+        await tx.query(
+            `INSERT INTO vector_tables (name, dimensions, normalized) VALUES ($1, $2, $3)
+             ON CONFLICT (name) DO UPDATE SET
+                dimensions = coalesce(vector_tables.dimensions, excluded.dimensions),
+                normalized = coalesce(vector_tables.normalized, excluded.normalized),
+                updated_at = now()`,
+            [this.tableName, this.dimensions, normalized]
+        );
+    }
+    
+    /**
+     * Tell subscribers that the vectors in the table changed
+     * @param type Kind of change
+     * @param ids Ids of the affected vectors
+     */
+    private notifyChange(type: IndexChange['type'], ids: number[]): void {
+        const change: IndexChange = { table: this.tableName, type, ids };
+        this.provider.trigger('index-change', change);
+    }
+}
+
+/**
+ * Check if a vector has length 1
+ * @param vector The vector
+ */
+function isUnitLength(vector: number[]): boolean {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return Math.abs(length - 1) <= UNIT_LENGTH_TOLERANCE;
+}
+
+/**
+ * Add the condition of a search filter to a query
+ * @param filter The filter, with its own $1, $2, ... placeholders
+ * @param param Adds a value to the query's params and returns its placeholder
+ * @returns The condition with a placeholder of the query for each of its placeholders
+ */
+function bindFilter(filter: VectorSearchFilter, param: (value: unknown) => string): string {
+    const params = filter.params ?? [];
+    return filter.where.replace(/\$([0-9]+)/g, (placeholder, number: string) => {
+        const index = parseInt(number) - 1;
+        if (index < 0 || index >= params.length) {
+            throw new Error(`Search filter has no param for ${placeholder}`);
+        }
+        return param(params[index]);
+    });
 }
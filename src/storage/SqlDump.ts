@@ -0,0 +1,187 @@
+import { PGliteInterface } from '@electric-sql/pglite';
+
+// Rows are read and written in batches to keep memory use flat
+const ROW_BATCH_SIZE = 500;
+
+/**
+ * Quote an SQL identifier
+ * @param name Identifier to quote
+ */
+export function quoteIdent(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote an SQL string literal
+ * @param value String to quote
+ */
+export function quoteLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+interface ColumnInfo {
+    name: string;
+    type: string;
+    not_null: boolean;
+    default_expr: string | null;
+    generated: string;
+}
+
+/**
+ * Export the public schema as a plain-text SQL dump
+ *
+ * The dump contains the schema (sequences, tables, constraints and indexes) and
+ * one INSERT per row. Values are written as quoted text literals, which round-trips
+ * every type the plugin uses, including pgvector's `[1,2,3]` vectors. Tables are
+ * dropped before they are recreated, so a dump can be replayed over a database
+ * that already has them.
+ * @param client PGlite client to export
+ * @returns The SQL dump
+ */
+export async function exportSqlDump(client: PGliteInterface): Promise<string> {
+    const lines: string[] = [
+        '-- PGlite SQL dump',
+        `-- Exported ${new Date().toISOString()}`,
+        '',
+        'CREATE EXTENSION IF NOT EXISTS vector;',
+        ''
+    ];
+
+    const tables = (await client.query<{ name: string }>(`
+        SELECT c.relname AS name
+        FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = 'public' AND c.relkind = 'r'
+        ORDER BY c.relname
+    `)).rows.map(row => row.name);
+
+    const sequences = (await client.query<{ name: string, owner_table: string | null, owner_column: string | null }>(`
+        SELECT s.relname AS name, t.relname AS owner_table, a.attname AS owner_column
+        FROM pg_class s
+        JOIN pg_namespace n ON n.oid = s.relnamespace
+        LEFT JOIN pg_depend d ON d.objid = s.oid AND d.deptype = 'a' AND d.classid = 'pg_class'::regclass
+        LEFT JOIN pg_class t ON t.oid = d.refobjid
+        LEFT JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+        WHERE n.nspname = 'public' AND s.relkind = 'S'
+        ORDER BY s.relname
+    `)).rows;
+
+    for (const table of tables) {
+        lines.push(`DROP TABLE IF EXISTS ${quoteIdent(table)} CASCADE;`);
+    }
+    for (const sequence of sequences) {
+        lines.push(`DROP SEQUENCE IF EXISTS ${quoteIdent(sequence.name)} CASCADE;`);
+        lines.push(`CREATE SEQUENCE ${quoteIdent(sequence.name)};`);
+    }
+    lines.push('');
+
+    // Schema
+    const columnsByTable = new Map<string, ColumnInfo[]>();
+    for (const table of tables) {
+        const columns = (await client.query<ColumnInfo>(`
+            SELECT a.attname AS name,
+                   format_type(a.atttypid, a.atttypmod) AS type,
+                   a.attnotnull AS not_null,
+                   pg_get_expr(d.adbin, d.adrelid) AS default_expr,
+                   a.attgenerated AS generated
+            FROM pg_attribute a
+            LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+            WHERE a.attrelid = $1::regclass AND a.attnum > 0 AND NOT a.attisdropped
+            ORDER BY a.attnum
+        `, [quoteIdent(table)])).rows;
+        columnsByTable.set(table, columns);
+
+        const definitions = columns.map(column => {
+            let definition = `    ${quoteIdent(column.name)} ${column.type}`;
+            if (column.generated === 's') {
+                definition += ` GENERATED ALWAYS AS (${column.default_expr}) STORED`;
+            } else if (column.default_expr !== null) {
+                definition += ` DEFAULT ${column.default_expr}`;
+            }
+            if (column.not_null) {
+                definition += ' NOT NULL';
+            }
+            return definition;
+        });
+        lines.push(`CREATE TABLE ${quoteIdent(table)} (`, definitions.join(',\n'), ');', '');
+    }
+
+    // Data
+    for (const table of tables) {
+        const columns = columnsByTable.get(table)!.filter(column => column.generated !== 's');
+        if (columns.length === 0) continue;
+
+        const columnList = columns.map(column => quoteIdent(column.name)).join(', ');
+        const valueList = columns.map(column => `quote_nullable(${quoteIdent(column.name)}::text)`).join(` || ', ' || `);
+
+        for (let offset = 0; ; offset += ROW_BATCH_SIZE) {
+            const batch = await client.query<{ row_values: string }>(
+                `SELECT ${valueList} AS row_values FROM ${quoteIdent(table)} ORDER BY ctid LIMIT $1 OFFSET $2`,
+                [ROW_BATCH_SIZE, offset]
+            );
+            for (const row of batch.rows) {
+                lines.push(`INSERT INTO ${quoteIdent(table)} (${columnList}) VALUES (${row.row_values});`);
+            }
+            if (batch.rows.length < ROW_BATCH_SIZE) break;
+        }
+        lines.push('');
+    }
+
+    // Sequence positions and ownership
+    for (const sequence of sequences) {
+        const state = (await client.query<{ last_value: string, is_called: boolean }>(
+            `SELECT last_value, is_called FROM ${quoteIdent(sequence.name)}`
+        )).rows[0];
+        lines.push(`SELECT setval(${quoteLiteral(quoteIdent(sequence.name))}, ${state.last_value}, ${state.is_called});`);
+        if (sequence.owner_table && sequence.owner_column) {
+            lines.push(
+                `ALTER SEQUENCE ${quoteIdent(sequence.name)} OWNED BY ` +
+                `${quoteIdent(sequence.owner_table)}.${quoteIdent(sequence.owner_column)};`
+            );
+        }
+    }
+    lines.push('');
+
+    // Constraints, foreign keys last so every referenced table exists
+    const constraints = (await client.query<{ table_name: string, name: string, definition: string }>(`
+        SELECT t.relname AS table_name, c.conname AS name, pg_get_constraintdef(c.oid) AS definition
+        FROM pg_constraint c
+        JOIN pg_class t ON t.oid = c.conrelid
+        JOIN pg_namespace n ON n.oid = t.relnamespace
+        WHERE n.nspname = 'public' AND c.contype IN ('p', 'u', 'c', 'f')
+        ORDER BY c.contype = 'f', t.relname, c.conname
+    `)).rows;
+    for (const constraint of constraints) {
+        lines.push(
+            `ALTER TABLE ${quoteIdent(constraint.table_name)} ADD CONSTRAINT ` +
+            `${quoteIdent(constraint.name)} ${constraint.definition};`
+        );
+    }
+    lines.push('');
+
+    // Indexes not created by a constraint
+    const indexes = (await client.query<{ definition: string }>(`
+        SELECT pg_get_indexdef(i.indexrelid) AS definition
+        FROM pg_index i
+        JOIN pg_class t ON t.oid = i.indrelid
+        JOIN pg_namespace n ON n.oid = t.relnamespace
+        WHERE n.nspname = 'public'
+          AND NOT EXISTS (SELECT 1 FROM pg_constraint c WHERE c.conindid = i.indexrelid)
+        ORDER BY t.relname
+    `)).rows;
+    for (const index of indexes) {
+        lines.push(`${index.definition};`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Replay an SQL dump in a single transaction
+ * @param client PGlite client to import into
+ * @param sql The SQL dump
+ */
+export async function importSqlDump(client: PGliteInterface, sql: string): Promise<void> {
+    await client.transaction(async (tx) => {
+        await tx.exec(sql);
+    });
+}
@@ -0,0 +1,217 @@
+import { PGliteProvider } from './PGliteProvider';
+import { DistanceMetric, EmbeddingProvenanceError, IndexChange, PGliteVectorStore, VectorStoreOptions } from './PGliteVectorStore';
+import { quoteIdent } from './SqlDump';
+
+// Vector table from before each model had its own table
+const LEGACY_TABLE = 'vector_test';
+
+// Longest table name PostgreSQL keeps without truncating it
+const MAX_NAME_LENGTH = 63;
+
+/**
+ * The embedding model a vector table holds embeddings of
+ */
+export interface VectorTableModel {
+    provider: string;
+    name: string;
+}
+
+/**
+ * A vector table in the catalog
+ */
+export interface VectorTableEntry {
+    name: string;
+    // Provider and model of the embeddings, or null for vector_test before a model adopted it
+    provider: string | null;
+    model: string | null;
+    dimensions: number | null;
+    metric: DistanceMetric;
+    // Whether the embeddings have length 1, or null until the first one is stored
+    normalized: boolean | null;
+    createdAt: Date | null;
+    updatedAt: Date | null;
+    rowCount: number;
+    // Size on disk in bytes, including indexes
+    size: number;
+}
+
+/**
+ * Catalog of the vector tables in the vector_tables table, one per embedding model
+ * Switching to another model keeps the embeddings of the previous one, so switching
+ * back does not require indexing the vault again.
+ */
+export class VectorTableCatalog {
+    /**
+     * Create a new VectorTableCatalog
+     * @param provider PGlite provider
+     */
+    constructor(private provider: PGliteProvider) {}
+
+    /**
+     * Open the vector store of an embedding model
+     * The table itself is created by PGliteVectorStore.createTable().
+     * @param model The embedding model with its dimensions
+     * @param options Index and search options
+     */
+    async openStore(
+        model: VectorTableModel & { dimensions: number },
+        options: VectorStoreOptions = {}
+    ): Promise<PGliteVectorStore> {
+        const tableName = await this.getTableName(model);
+        return new PGliteVectorStore(this.provider, model.dimensions, tableName, { ...options, model });
+    }
+
+    /**
+     * Get the name of the vector table of an embedding model
+     * A model without a table gets a new name from its provider and name, unless
+     * vector_test has its dimensions and no model yet; then it takes over vector_test.
+     * @param model The embedding model with its dimensions
+     */
+    async getTableName(model: VectorTableModel & { dimensions: number }): Promise<string> {
+        const client = this.getClient();
+        const registered = await client.query<{ name: string }>(
+            'SELECT name FROM vector_tables WHERE provider = $1 AND model = $2',
+            [model.provider, model.name]
+        );
+        if (registered.rows.length > 0) {
+            return registered.rows[0].name;
+        }
+
+        // For pgvector, the type modifier is the number of dimensions
+        const legacy = await client.query<{ dimensions: number }>(
+            `SELECT a.atttypmod AS dimensions FROM pg_attribute a
+             WHERE a.attrelid = to_regclass($1) AND a.attname = 'embedding'
+               AND NOT EXISTS (SELECT 1 FROM vector_tables WHERE name = $1 AND model IS NOT NULL)`,
+            [LEGACY_TABLE]
+        );
+        if (legacy.rows[0]?.dimensions === model.dimensions) {
+            // Record it right away, so another model with the same dimensions does not take it too
+            if (!this.provider.isReadOnly()) {
+                await this.register(LEGACY_TABLE, model);
+            }
+            return LEGACY_TABLE;
+        }
+
+        return this.getFreeName(`embeddings_${slugify(model.provider)}_${slugify(model.name)}`);
+    }
+
+    /**
+     * Record the embedding model of a vector table
+     * A table that holds the embeddings of another model keeps it, unless it was emptied.
+     * @param name Name of the vector table
+     * @param model The embedding model
+     * @param replace Whether the table was recreated, so any previous model no longer applies
+     */
+    async register(name: string, model: VectorTableModel, replace: boolean = false): Promise<void> {
+        const result = await this.getClient().query<{ provider: string, model: string }>(
+            `INSERT INTO vector_tables (name, provider, model) VALUES ($1, $2, $3)
+             ON CONFLICT (name) DO UPDATE SET provider = excluded.provider, model = excluded.model
+             WHERE $4 OR vector_tables.model IS NULL
+                OR (vector_tables.provider = excluded.provider AND vector_tables.model = excluded.model)
+             RETURNING provider, model`,
+            [name, model.provider, model.name, replace]
+        );
+        if (result.rows.length === 0) {
+            const registered = await this.getClient().query<{ provider: string, model: string }>(
+                'SELECT provider, model FROM vector_tables WHERE name = $1',
+                [name]
+            );
+            const other = registered.rows[0];
+            throw new EmbeddingProvenanceError(name, `holds embeddings of ${other?.model} (${other?.provider}), not of ${model.name} (${model.provider})`);
+        }
+    }
+
+    /**
+     * List the vector tables of all models, with their sizes
+     */
+    async listTables(): Promise<VectorTableEntry[]> {
+        const client = this.getClient();
+        const tables = await client.query<Omit<VectorTableEntry, 'rowCount'>>(
+            `SELECT c.relname AS name, v.provider, v.model,
+                    coalesce(v.dimensions, nullif(a.atttypmod, -1)) AS dimensions,
+                    coalesce(v.metric, 'cosine') AS metric,
+                    v.normalized, v.created_at AS "createdAt", v.updated_at AS "updatedAt",
+                    pg_total_relation_size(c.oid)::float8 AS size
+             FROM pg_class c
+             JOIN pg_namespace n ON n.oid = c.relnamespace
+             LEFT JOIN pg_attribute a ON a.attrelid = c.oid AND a.attname = 'embedding'
+             LEFT JOIN vector_tables v ON v.name = c.relname
+             WHERE n.nspname = 'public' AND c.relkind = 'r' AND (v.model IS NOT NULL OR c.relname = $1)
+             ORDER BY v.model NULLS LAST, c.relname`,
+            [LEGACY_TABLE]
+        );
+
+        const entries: VectorTableEntry[] = [];
+        for (const table of tables.rows) {
+            const count = await client.query<{ count: number }>(`SELECT count(*)::int AS count FROM ${quoteIdent(table.name)}`);
+            entries.push({ ...table, rowCount: count.rows[0].count });
+        }
+        return entries;
+    }
+
+    /**
+     * Get the names of the vector tables of all models
+     */
+    async getTableNames(): Promise<string[]> {
+        const result = await this.getClient().query<{ name: string }>(
+            'SELECT name FROM vector_tables WHERE model IS NOT NULL ORDER BY name'
+        );
+        return result.rows.map(row => row.name);
+    }
+
+    /**
+     * Delete the vector table of a model with its catalog entry and indexing checkpoint
+     * A backup is taken first, so the embeddings can be restored.
+     * @param name Name of the vector table
+     */
+    async dropTable(name: string): Promise<void> {
+        await this.provider.createBackup(`before-drop-${name}`);
+        try {
+            await this.getClient().transaction(async (tx) => {
+                await tx.query(`DROP TABLE IF EXISTS ${quoteIdent(name)}`);
+                await tx.query('DELETE FROM vector_tables WHERE name = $1', [name]);
+                await tx.query('DELETE FROM index_jobs WHERE id = $1', [`vault:${name}`]);
+            });
+        } catch (error) {
+            throw new Error(`Failed to drop vector table ${name}: ${error}`);
+        }
+        console.log(`Dropped vector table ${name}`);
+
+        const change: IndexChange = { table: name, type: 'reset', ids: [] };
+        this.provider.trigger('index-change', change);
+    }
+
+    /**
+     * Find a table name that is not taken, adding a number if needed
+     * @param base The preferred name
+     */
+    private async getFreeName(base: string): Promise<string> {
+        for (let attempt = 1; ; attempt++) {
+            const suffix = attempt === 1 ? '' : `_${attempt}`;
+            const name = base.substring(0, MAX_NAME_LENGTH - suffix.length) + suffix;
+            const taken = await this.getClient().query<{ taken: boolean }>(
+                `SELECT to_regclass(quote_ident($1)) IS NOT NULL
+                     OR EXISTS (SELECT 1 FROM vector_tables WHERE name = $1) AS taken`,
+                [name]
+            );
+            if (!taken.rows[0].taken) {
+                return name;
+            }
+        }
+    }
+
+    private getClient() {
+        if (!this.provider.isReady()) {
+            throw new Error('PGlite provider is not ready');
+        }
+        return this.provider.getClient();
+    }
+}
+
+/**
+ * Turn a provider or model name into part of a table name
+ * @param value The name, e.g. nomic-embed-text or text-embedding-3-small
+ */
+function slugify(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
@@ -0,0 +1,20 @@
+import { Migration } from './Migration';
+
+/**
+ * Create the test table used by the database commands
+ */
+export const createTestTable: Migration = {
+    version: 1,
+    name: 'create_test_table',
+    async up(tx) {
+        // IF NOT EXISTS adopts tables created before migrations existed
+        await tx.exec(`
+            CREATE TABLE IF NOT EXISTS test_table (
+                id SERIAL PRIMARY KEY,
+                title TEXT NOT NULL,
+                content TEXT,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+    }
+};
@@ -0,0 +1,12 @@
+import { Migration } from './Migration';
+
+/**
+ * Enable the pgvector extension used by the vector tables
+ */
+export const enableVector: Migration = {
+    version: 2,
+    name: 'enable_vector',
+    async up(tx) {
+        await tx.exec('CREATE EXTENSION IF NOT EXISTS vector');
+    }
+};
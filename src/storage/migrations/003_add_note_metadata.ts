@@ -0,0 +1,23 @@
+import { Migration } from './Migration';
+
+/**
+ * Add the note a vector was made from to the vector table
+ * The vector table is created by a command with the model's dimensions, so this
+ * only changes it if it exists; PGliteVectorStore.createTable() creates new
+ * tables with these columns.
+ */
+export const addNoteMetadata: Migration = {
+    version: 3,
+    name: 'add_note_metadata',
+    async up(tx) {
+        await tx.exec(`
+            ALTER TABLE IF EXISTS vector_test
+                ADD COLUMN IF NOT EXISTS path TEXT UNIQUE,
+                ADD COLUMN IF NOT EXISTS basename TEXT,
+                ADD COLUMN IF NOT EXISTS mtime TIMESTAMPTZ,
+                ADD COLUMN IF NOT EXISTS content_hash TEXT,
+                ADD COLUMN IF NOT EXISTS frontmatter JSONB NOT NULL DEFAULT '{}',
+                ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}'
+        `);
+    }
+};
@@ -0,0 +1,28 @@
+import { Migration } from './Migration';
+
+/**
+ * Store notes as chunks: one row per chunk, unique by path and chunk index
+ * Existing rows become chunk 0 of their note. Their content hash is cleared so
+ * the next insert re-embeds them in chunks instead of skipping them as unchanged.
+ */
+export const addNoteChunks: Migration = {
+    version: 4,
+    name: 'add_note_chunks',
+    async up(tx) {
+        const table = await tx.query<{ exists: boolean }>(`SELECT to_regclass('vector_test') IS NOT NULL AS exists`);
+        if (!table.rows[0].exists) {
+            return;
+        }
+
+        await tx.exec(`
+            ALTER TABLE vector_test
+                DROP CONSTRAINT IF EXISTS vector_test_path_key,
+                ADD COLUMN IF NOT EXISTS chunk_index INTEGER NOT NULL DEFAULT 0,
+                ADD COLUMN IF NOT EXISTS heading_path TEXT[] NOT NULL DEFAULT '{}',
+                ADD COLUMN IF NOT EXISTS start_line INTEGER,
+                ADD COLUMN IF NOT EXISTS end_line INTEGER,
+                ADD CONSTRAINT vector_test_path_chunk_index_key UNIQUE (path, chunk_index);
+            UPDATE vector_test SET content_hash = NULL;
+        `);
+    }
+};
@@ -0,0 +1,29 @@
+import { Migration } from './Migration';
+
+/**
+ * Add the checkpoint tables of vault indexing jobs
+ * A job lists the notes it has to index, so it can resume where it stopped.
+ */
+export const addIndexJobs: Migration = {
+    version: 5,
+    name: 'add_index_jobs',
+    async up(tx) {
+        await tx.exec(`
+            CREATE TABLE IF NOT EXISTS index_jobs (
+                id TEXT PRIMARY KEY,
+                status TEXT NOT NULL,
+                total INTEGER NOT NULL,
+                last_error TEXT,
+                started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+                updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+            );
+            CREATE TABLE IF NOT EXISTS index_job_files (
+                job_id TEXT NOT NULL REFERENCES index_jobs (id) ON DELETE CASCADE,
+                path TEXT NOT NULL,
+                status TEXT NOT NULL DEFAULT 'pending',
+                error TEXT,
+                PRIMARY KEY (job_id, path)
+            );
+        `);
+    }
+};
@@ -0,0 +1,18 @@
+import { Migration } from './Migration';
+
+/**
+ * Add a registry of vector tables with the distance metric each one is searched by
+ * Tables without a row are searched by cosine distance, as before.
+ */
+export const addVectorTables: Migration = {
+    version: 6,
+    name: 'add_vector_tables',
+    async up(tx) {
+        await tx.exec(`
+            CREATE TABLE IF NOT EXISTS vector_tables (
+                name TEXT PRIMARY KEY,
+                metric TEXT NOT NULL DEFAULT 'cosine'
+            )
+        `);
+    }
+};
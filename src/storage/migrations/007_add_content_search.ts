@@ -0,0 +1,25 @@
+import { Migration } from './Migration';
+
+/**
+ * Keep a full-text search vector of each chunk for keyword and hybrid search
+ * The note's name is weighted above its content, so notes named after a term rank first.
+ */
+export const addContentSearch: Migration = {
+    version: 7,
+    name: 'add_content_search',
+    async up(tx) {
+        const table = await tx.query<{ exists: boolean }>(`SELECT to_regclass('vector_test') IS NOT NULL AS exists`);
+        if (!table.rows[0].exists) {
+            return;
+        }
+
+        await tx.exec(`
+            ALTER TABLE vector_test
+                ADD COLUMN IF NOT EXISTS content_tsv TSVECTOR GENERATED ALWAYS AS (
+                    setweight(to_tsvector('simple', coalesce(basename, '')), 'A') ||
+                    to_tsvector('simple', coalesce(content, ''))
+                ) STORED;
+            CREATE INDEX IF NOT EXISTS vector_test_content_tsv_idx ON vector_test USING gin (content_tsv);
+        `);
+    }
+};
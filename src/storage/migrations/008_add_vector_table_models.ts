@@ -0,0 +1,26 @@
+import { Migration } from './Migration';
+
+/**
+ * Record the embedding model of each vector table, so every model gets a table of its own
+ * vector_test is adopted by the first model with its dimensions that uses it. Vault
+ * indexing is checkpointed per vector table, so its job is renamed after the table.
+ */
+export const addVectorTableModels: Migration = {
+    version: 8,
+    name: 'add_vector_table_models',
+    async up(tx) {
+        await tx.exec(`
+            ALTER TABLE vector_tables
+                ADD COLUMN IF NOT EXISTS provider TEXT,
+                ADD COLUMN IF NOT EXISTS model TEXT,
+                ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT now();
+            CREATE UNIQUE INDEX IF NOT EXISTS vector_tables_model_key ON vector_tables (provider, model);
+
+            INSERT INTO index_jobs (id, status, total, last_error, started_at, updated_at)
+                SELECT 'vault:vector_test', status, total, last_error, started_at, updated_at
+                FROM index_jobs WHERE id = 'vault';
+            UPDATE index_job_files SET job_id = 'vault:vector_test' WHERE job_id = 'vault';
+            DELETE FROM index_jobs WHERE id = 'vault';
+        `);
+    }
+};
@@ -0,0 +1,24 @@
+import { Migration } from './Migration';
+
+/**
+ * Record the dimensions and normalization of the embeddings in each vector table
+ * Dimensions of existing tables are taken from their embedding column. Normalization
+ * is recorded with the next write, judged by the embeddings already stored, and
+ * updated_at tracks the last write.
+ */
+export const addVectorTableProvenance: Migration = {
+    version: 9,
+    name: 'add_vector_table_provenance',
+    async up(tx) {
+        await tx.exec(`
+            ALTER TABLE vector_tables
+                ADD COLUMN IF NOT EXISTS dimensions INTEGER,
+                ADD COLUMN IF NOT EXISTS normalized BOOLEAN,
+                ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+            UPDATE vector_tables v SET dimensions = a.atttypmod
+                FROM pg_attribute a
+                WHERE a.attrelid = to_regclass(quote_ident(v.name)) AND a.attname = 'embedding' AND a.atttypmod > 0;
+        `);
+    }
+};
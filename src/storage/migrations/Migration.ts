@@ -0,0 +1,13 @@
+import { Transaction } from '@electric-sql/pglite';
+
+/**
+ * A versioned schema change
+ * Migrations run in version order inside a transaction and are recorded in
+ * the `schema_migrations` table, so each one runs exactly once per database.
+ * Never change a migration that has shipped; add a new one instead.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up(tx: Transaction): Promise<void>;
+}
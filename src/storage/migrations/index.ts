@@ -0,0 +1,41 @@
+import { Migration } from './Migration';
+import { createTestTable } from './001_create_test_table';
+import { enableVector } from './002_enable_vector';
+import { addNoteMetadata } from './003_add_note_metadata';
+import { addNoteChunks } from './004_add_note_chunks';
+import { addIndexJobs } from './005_add_index_jobs';
+import { addVectorTables } from './006_add_vector_tables';
+import { addContentSearch } from './007_add_content_search';
+import { addVectorTableModels } from './008_add_vector_table_models';
+import { addVectorTableProvenance } from './009_add_vector_table_provenance';
+
+export * from './Migration';
+
+/**
+ * All schema migrations, in the order they are applied
+ */
+export const MIGRATIONS: Migration[] = [
+    createTestTable,
+    enableVector,
+    addNoteMetadata,
+    addNoteChunks,
+    addIndexJobs,
+    addVectorTables,
+    addContentSearch,
+    addVectorTableModels,
+    addVectorTableProvenance
+];
+
+/**
+ * Tables the plugin creates, by migrations or by commands
+ * Any other table in the public schema is reported as orphaned by the health view,
+ * except the vector tables of embedding models recorded in vector_tables.
+ */
+export const MANAGED_TABLES: string[] = [
+    'schema_migrations',
+    'index_jobs',
+    'index_job_files',
+    'test_table',
+    'vector_tables',
+    'vector_test'
+];
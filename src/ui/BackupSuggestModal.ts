@@ -0,0 +1,41 @@
+import { App, SuggestModal } from 'obsidian';
+import { BackupInfo } from '../storage/BackupManager';
+import { formatBytes } from '../utils/FormatHelpers';
+
+/**
+ * Modal for picking a database backup to restore
+ */
+export class BackupSuggestModal extends SuggestModal<BackupInfo> {
+    private backups: BackupInfo[];
+    private onChoose: (backup: BackupInfo) => void;
+
+    /**
+     * Create a new BackupSuggestModal
+     * @param app Obsidian app instance
+     * @param backups Backups to choose from, newest first
+     * @param onChoose Callback function called with the chosen backup
+     */
+    constructor(app: App, backups: BackupInfo[], onChoose: (backup: BackupInfo) => void) {
+        super(app);
+        this.backups = backups;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose a backup to restore');
+    }
+
+    getSuggestions(query: string): BackupInfo[] {
+        const lowerQuery = query.toLowerCase();
+        return this.backups.filter(backup =>
+            backup.createdAt.toLocaleString().toLowerCase().includes(lowerQuery) ||
+            backup.reason.includes(lowerQuery)
+        );
+    }
+
+    renderSuggestion(backup: BackupInfo, el: HTMLElement) {
+        el.createEl('div', { text: backup.createdAt.toLocaleString() });
+        el.createEl('small', { text: `${backup.reason} · ${formatBytes(backup.size)}` });
+    }
+
+    onChooseSuggestion(backup: BackupInfo) {
+        this.onChoose(backup);
+    }
+}
@@ -0,0 +1,91 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Modal for setting, changing or removing the passphrase of a database
+ */
+export class ChangePassphraseModal extends Modal {
+    private isEncrypted: boolean;
+    private onSubmit: (currentPassphrase: string | null, newPassphrase: string | null) => void;
+
+    /**
+     * Create a new ChangePassphraseModal
+     * @param app Obsidian app instance
+     * @param isEncrypted Whether the database already has a passphrase
+     * @param onSubmit Callback function called with the current passphrase (null if not encrypted)
+     * and the new passphrase (null to remove encryption)
+     */
+    constructor(
+        app: App,
+        isEncrypted: boolean,
+        onSubmit: (currentPassphrase: string | null, newPassphrase: string | null) => void
+    ) {
+        super(app);
+        this.isEncrypted = isEncrypted;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl, titleEl } = this;
+
+        titleEl.setText(this.isEncrypted ? 'Change Database Passphrase' : 'Encrypt Database');
+        contentEl.createEl('p', {
+            text: this.isEncrypted
+                ? 'Leave the new passphrase empty to store the database unencrypted again.'
+                : 'The saved database and its backups will be encrypted. ' +
+                    'You will be asked for the passphrase each time the database is opened.'
+        });
+        contentEl.createEl('p', {
+            text: 'There is no way to recover a forgotten passphrase.'
+        }).style.color = 'var(--text-warning)';
+
+        const createInput = (placeholder: string) => {
+            const inputEl = contentEl.createEl('input', { type: 'password', placeholder });
+            inputEl.style.width = '100%';
+            inputEl.style.marginBottom = '10px';
+            return inputEl;
+        };
+        const currentEl = this.isEncrypted ? createInput('Current passphrase') : null;
+        const newEl = createInput('New passphrase');
+        const confirmEl = createInput('Confirm new passphrase');
+
+        const errorEl = contentEl.createEl('p');
+        errorEl.style.color = 'var(--text-error)';
+
+        const buttonContainer = contentEl.createDiv();
+        buttonContainer.style.display = 'flex';
+        buttonContainer.style.justifyContent = 'flex-end';
+
+        const submit = () => {
+            if (newEl.value !== confirmEl.value) {
+                errorEl.setText('The new passphrases do not match');
+                return;
+            }
+            if (!this.isEncrypted && !newEl.value) {
+                errorEl.setText('Enter a passphrase');
+                return;
+            }
+            this.close();
+            this.onSubmit(currentEl ? currentEl.value : null, newEl.value || null);
+        };
+
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.style.marginRight = '10px';
+        cancelButton.addEventListener('click', () => this.close());
+
+        const submitButton = buttonContainer.createEl('button', {
+            text: this.isEncrypted ? 'Change passphrase' : 'Encrypt',
+            cls: 'mod-cta'
+        });
+        submitButton.addEventListener('click', submit);
+        confirmEl.addEventListener('keydown', (evt) => {
+            if (evt.key === 'Enter') submit();
+        });
+
+        (currentEl ?? newEl).focus();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
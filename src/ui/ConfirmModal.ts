@@ -0,0 +1,64 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Generic confirmation modal for destructive actions
+ */
+export class ConfirmModal extends Modal {
+    private title: string;
+    private message: string;
+    private confirmText: string;
+    private onConfirm: (confirmed: boolean) => void;
+
+    /**
+     * Create a new ConfirmModal
+     * @param app Obsidian app instance
+     * @param title Modal title
+     * @param message Explanation of what will happen
+     * @param confirmText Label of the confirm button
+     * @param onConfirm Callback function called with the confirmation result
+     */
+    constructor(
+        app: App,
+        title: string,
+        message: string,
+        confirmText: string,
+        onConfirm: (confirmed: boolean) => void
+    ) {
+        super(app);
+        this.title = title;
+        this.message = message;
+        this.confirmText = confirmText;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen() {
+        const { contentEl, titleEl } = this;
+
+        titleEl.setText(this.title);
+        contentEl.createEl('p', { text: this.message });
+
+        // Add buttons
+        const buttonContainer = contentEl.createDiv();
+        buttonContainer.style.display = 'flex';
+        buttonContainer.style.justifyContent = 'flex-end';
+        buttonContainer.style.marginTop = '20px';
+
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.style.marginRight = '10px';
+        cancelButton.addEventListener('click', () => {
+            this.onConfirm(false);
+            this.close();
+        });
+
+        const confirmButton = buttonContainer.createEl('button', { text: this.confirmText, cls: 'mod-warning' });
+        confirmButton.addEventListener('click', () => {
+            this.onConfirm(true);
+            this.close();
+        });
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,188 @@
+import { ItemView, Notice, WorkspaceLeaf } from 'obsidian';
+import type PGLitePlugin from '../../main';
+import { ConfirmModal } from './ConfirmModal';
+import { MANAGED_TABLES } from '../storage/migrations';
+import { TableHealth, analyze, findOrphanedTables, vacuumFull } from '../storage/DatabaseMaintenance';
+import { VectorTableCatalog } from '../storage/VectorTableCatalog';
+import { formatBytes } from '../utils/FormatHelpers';
+
+export const DATABASE_HEALTH_VIEW_TYPE = 'pglite-database-health';
+
+/**
+ * Side panel showing table sizes, indexes and storage of the active database,
+ * with maintenance actions
+ */
+export class DatabaseHealthView extends ItemView {
+    private isBusy: boolean = false;
+
+    /**
+     * Create a new DatabaseHealthView
+     * @param leaf Workspace leaf hosting the view
+     * @param plugin Plugin instance
+     */
+    constructor(leaf: WorkspaceLeaf, private plugin: PGLitePlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return DATABASE_HEALTH_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Database health';
+    }
+
+    getIcon(): string {
+        return 'database';
+    }
+
+    async onOpen() {
+        await this.refresh();
+    }
+
+    /**
+     * Collect the statistics of the active database and render them
+     */
+    async refresh(): Promise<void> {
+        const containerEl = this.contentEl;
+        const provider = this.plugin.provider;
+        if (!provider || !provider.isReady()) {
+            containerEl.empty();
+            containerEl.createEl('p', { text: 'PGlite is not initialized yet' });
+            return;
+        }
+
+        try {
+            const tables = await provider.getTableHealth();
+            const storage = await provider.getStorageInfo();
+            const vectorTables = await new VectorTableCatalog(provider).getTableNames();
+            const orphaned = findOrphanedTables(tables, [...MANAGED_TABLES, ...vectorTables]);
+
+            containerEl.empty();
+            containerEl.createEl('h4', { text: `Database: ${provider.getDatabaseName()}` });
+
+            const summary = containerEl.createEl('ul');
+            summary.createEl('li', { text: `Saved size: ${formatBytes(storage.persistedSize)}` });
+            summary.createEl('li', {
+                text: `Last saved: ${storage.savedAt ? storage.savedAt.toLocaleString() : 'never'}${provider.isDirty() ? ' (unsaved changes)' : ''}`
+            });
+            if (provider.isReadOnly()) {
+                summary.createEl('li', { text: 'Open read-only' });
+            }
+
+            this.renderActions(containerEl, orphaned);
+
+            if (tables.length === 0) {
+                containerEl.createEl('p', { text: 'No tables found.' });
+                return;
+            }
+            for (const table of tables) {
+                this.renderTable(containerEl, table, orphaned.includes(table));
+            }
+        } catch (error) {
+            console.error('Error collecting database health:', error);
+            containerEl.empty();
+            containerEl.createEl('p', { text: 'Error collecting database health: ' + (error as Error).message });
+        }
+    }
+
+    private renderActions(containerEl: HTMLElement, orphaned: TableHealth[]) {
+        const actions = containerEl.createDiv();
+        actions.style.display = 'flex';
+        actions.style.flexWrap = 'wrap';
+        actions.style.gap = '8px';
+        actions.style.marginBottom = '16px';
+
+        actions.createEl('button', { text: 'Refresh' })
+            .addEventListener('click', () => this.refresh());
+
+        const readOnly = this.plugin.provider?.isReadOnly() ?? true;
+
+        const vacuumButton = actions.createEl('button', { text: 'Vacuum full' });
+        vacuumButton.disabled = readOnly;
+        vacuumButton.addEventListener('click', () => this.runAction('Vacuum full', async () => {
+            await vacuumFull(this.getProvider().getClient());
+            await this.getProvider().save();
+        }));
+
+        const analyzeButton = actions.createEl('button', { text: 'Analyze' });
+        analyzeButton.disabled = readOnly;
+        analyzeButton.addEventListener('click', () => this.runAction('Analyze', async () => {
+            await analyze(this.getProvider().getClient());
+            await this.getProvider().save();
+        }));
+
+        const dropButton = actions.createEl('button', { text: `Drop orphaned tables (${orphaned.length})`, cls: 'mod-warning' });
+        dropButton.disabled = readOnly || orphaned.length === 0;
+        dropButton.addEventListener('click', () => {
+            const names = orphaned.map(table => table.name);
+            new ConfirmModal(
+                this.app,
+                'Drop orphaned tables',
+                `This drops ${names.join(', ')}, which the plugin does not use. A backup is taken first.`,
+                'Drop tables',
+                (confirmed) => {
+                    if (!confirmed) return;
+                    this.runAction('Drop orphaned tables', async () => {
+                        await this.getProvider().dropTables(names);
+                    });
+                }
+            ).open();
+        });
+    }
+
+    private renderTable(containerEl: HTMLElement, table: TableHealth, isOrphaned: boolean) {
+        const section = containerEl.createDiv();
+        section.style.marginBottom = '16px';
+
+        const heading = section.createEl('h5', { text: table.name });
+        if (isOrphaned) {
+            heading.createEl('small', { text: ' (orphaned)' }).style.color = 'var(--text-warning)';
+        }
+
+        const details = section.createEl('ul');
+        details.createEl('li', { text: `Rows: ${table.rowCount}` });
+        details.createEl('li', {
+            text: `Size: ${formatBytes(table.totalSize)} (table ${formatBytes(table.tableSize)}, indexes ${formatBytes(table.indexSize)})`
+        });
+        for (const column of table.vectorColumns) {
+            details.createEl('li', {
+                text: `Vector column ${column.name}: ${column.dimensions ?? 'unknown'} dimensions`
+            });
+        }
+        for (const index of table.indexes) {
+            details.createEl('li', { text: `Index ${index.name} (${index.method}): ${formatBytes(index.size)}` });
+        }
+    }
+
+    /**
+     * Run a maintenance action and refresh the view
+     * @param name Name of the action for notices
+     * @param action The action to run
+     */
+    private async runAction(name: string, action: () => Promise<void>) {
+        if (this.isBusy) return;
+        this.isBusy = true;
+        const notice = new Notice(`${name}...`, 0);
+        try {
+            await action();
+            notice.hide();
+            new Notice(`${name} finished`);
+        } catch (error) {
+            notice.hide();
+            console.error(`Error running ${name}:`, error);
+            new Notice(`Error running ${name}: ` + (error as Error).message);
+        } finally {
+            this.isBusy = false;
+        }
+        await this.refresh();
+    }
+
+    private getProvider() {
+        const provider = this.plugin.provider;
+        if (!provider || !provider.isReady()) {
+            throw new Error('PGlite is not initialized yet');
+        }
+        return provider;
+    }
+}
@@ -0,0 +1,82 @@
+import { App, Modal } from 'obsidian';
+import { DatabaseAccess } from '../storage/PGliteProvider';
+import { LockInfo } from '../storage/DatabaseLock';
+
+/**
+ * Modal offering to open a database read-only or take it over when another device holds its lock
+ */
+export class DatabaseLockedModal extends Modal {
+    private databaseName: string;
+    private holder: LockInfo;
+    private onChoose: (access: DatabaseAccess | null) => void;
+    private chosen: boolean = false;
+
+    /**
+     * Create a new DatabaseLockedModal
+     * @param app Obsidian app instance
+     * @param databaseName Name of the locked database
+     * @param holder The lock held by the other device
+     * @param onChoose Callback function called with the chosen access, or null if cancelled
+     */
+    constructor(app: App, databaseName: string, holder: LockInfo, onChoose: (access: DatabaseAccess | null) => void) {
+        super(app);
+        this.databaseName = databaseName;
+        this.holder = holder;
+        this.onChoose = onChoose;
+    }
+
+    onOpen() {
+        const { contentEl, titleEl } = this;
+
+        titleEl.setText('Database In Use');
+
+        contentEl.createEl('p', {
+            text: `The PGlite database "${this.databaseName}" is open on ${this.holder.deviceName}, ` +
+                `last seen ${new Date(this.holder.heartbeatAt).toLocaleString()}.`
+        });
+
+        contentEl.createEl('p', {
+            text: 'You can open it read-only here, or take it over. ' +
+                'Taking over makes the other device read-only; its unsaved changes will not be written.'
+        });
+
+        contentEl.createEl('p', {
+            text: 'Only take over if the other device is no longer using the database or has finished syncing.',
+            cls: 'warning'
+        }).style.color = 'var(--text-warning)';
+
+        // Add buttons
+        const buttonContainer = contentEl.createDiv();
+        buttonContainer.style.display = 'flex';
+        buttonContainer.style.justifyContent = 'flex-end';
+        buttonContainer.style.marginTop = '20px';
+
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.style.marginRight = '10px';
+        cancelButton.addEventListener('click', () => this.choose(null));
+
+        const takeOverButton = buttonContainer.createEl('button', { text: 'Take over', cls: 'mod-warning' });
+        takeOverButton.style.marginRight = '10px';
+        takeOverButton.addEventListener('click', () => this.choose('take-over'));
+
+        const readOnlyButton = buttonContainer.createEl('button', { text: 'Open read-only', cls: 'mod-cta' });
+        readOnlyButton.addEventListener('click', () => this.choose('read-only'));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        // Closing the modal without a choice counts as cancelling
+        if (!this.chosen) {
+            this.chosen = true;
+            this.onChoose(null);
+        }
+    }
+
+    private choose(access: DatabaseAccess | null) {
+        this.chosen = true;
+        this.onChoose(access);
+        this.close();
+    }
+}
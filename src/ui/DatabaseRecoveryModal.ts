@@ -0,0 +1,95 @@
+import { App, Modal } from 'obsidian';
+import { DatabaseRecovery } from '../storage/PGliteProvider';
+
+/**
+ * Modal offering recovery options when the saved database is corrupt
+ */
+export class DatabaseRecoveryModal extends Modal {
+    private databaseName: string;
+    private reason: string;
+    private hasPreviousCopy: boolean;
+    private onChoose: (recovery: DatabaseRecovery | null) => void;
+    private chosen: boolean = false;
+
+    /**
+     * Create a new DatabaseRecoveryModal
+     * @param app Obsidian app instance
+     * @param databaseName Name of the corrupt database
+     * @param reason Description of what failed verification
+     * @param hasPreviousCopy Whether a previous good copy can be restored
+     * @param onChoose Callback function called with the chosen recovery, or null if cancelled
+     */
+    constructor(
+        app: App,
+        databaseName: string,
+        reason: string,
+        hasPreviousCopy: boolean,
+        onChoose: (recovery: DatabaseRecovery | null) => void
+    ) {
+        super(app);
+        this.databaseName = databaseName;
+        this.reason = reason;
+        this.hasPreviousCopy = hasPreviousCopy;
+        this.onChoose = onChoose;
+    }
+
+    onOpen() {
+        const { contentEl, titleEl } = this;
+
+        titleEl.setText('Database Could Not Be Loaded');
+
+        contentEl.createEl('p', {
+            text: `The saved PGlite database "${this.databaseName}" failed verification and was not opened.`
+        });
+
+        contentEl.createEl('pre', { text: this.reason }).style.whiteSpace = 'pre-wrap';
+
+        contentEl.createEl('p', {
+            text: this.hasPreviousCopy
+                ? 'You can restore the previous good copy, which may be missing the most recent changes, ' +
+                  'or start with an empty database.'
+                : 'No previous good copy is available. You can start with an empty database.'
+        });
+
+        contentEl.createEl('p', {
+            text: 'Starting fresh moves the corrupt database aside in the plugin folder instead of deleting it.',
+            cls: 'warning'
+        }).style.color = 'var(--text-warning)';
+
+        // Add buttons
+        const buttonContainer = contentEl.createDiv();
+        buttonContainer.style.display = 'flex';
+        buttonContainer.style.justifyContent = 'flex-end';
+        buttonContainer.style.marginTop = '20px';
+
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.style.marginRight = '10px';
+        cancelButton.addEventListener('click', () => this.choose(null));
+
+        const freshButton = buttonContainer.createEl('button', { text: 'Start fresh', cls: 'mod-warning' });
+        freshButton.addEventListener('click', () => this.choose('start-fresh'));
+
+        if (this.hasPreviousCopy) {
+            freshButton.style.marginRight = '10px';
+            const restoreButton = buttonContainer.createEl('button', { text: 'Restore previous copy', cls: 'mod-cta' });
+            restoreButton.addEventListener('click', () => this.choose('restore-previous'));
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        // Closing the modal without a choice counts as cancelling
+        if (!this.chosen) {
+            this.chosen = true;
+            this.onChoose(null);
+        }
+    }
+
+    private choose(recovery: DatabaseRecovery | null) {
+        this.chosen = true;
+        this.onChoose(recovery);
+        this.close();
+    }
+}
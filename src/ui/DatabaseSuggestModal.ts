@@ -0,0 +1,41 @@
+import { App, SuggestModal } from 'obsidian';
+
+/**
+ * Modal for picking one of the named databases
+ */
+export class DatabaseSuggestModal extends SuggestModal<string> {
+    private databases: string[];
+    private activeDatabase: string;
+    private onChoose: (databaseName: string) => void;
+
+    /**
+     * Create a new DatabaseSuggestModal
+     * @param app Obsidian app instance
+     * @param databases Names of all databases
+     * @param activeDatabase Name of the database that is currently open
+     * @param onChoose Callback function called with the chosen database name
+     */
+    constructor(app: App, databases: string[], activeDatabase: string, onChoose: (databaseName: string) => void) {
+        super(app);
+        this.databases = databases;
+        this.activeDatabase = activeDatabase;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Switch to database...');
+    }
+
+    getSuggestions(query: string): string[] {
+        const lowerQuery = query.toLowerCase();
+        return this.databases.filter(name => name.toLowerCase().includes(lowerQuery));
+    }
+
+    renderSuggestion(databaseName: string, el: HTMLElement) {
+        el.createEl('div', { text: databaseName });
+        if (databaseName === this.activeDatabase) {
+            el.createEl('small', { text: 'Active' });
+        }
+    }
+
+    onChooseSuggestion(databaseName: string) {
+        this.onChoose(databaseName);
+    }
+}
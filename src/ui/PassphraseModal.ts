@@ -0,0 +1,76 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Modal asking for the passphrase of an encrypted database
+ */
+export class PassphraseModal extends Modal {
+    private databaseName: string;
+    private errorMessage: string | null;
+    private onSubmit: (passphrase: string | null) => void;
+    private submitted: boolean = false;
+
+    /**
+     * Create a new PassphraseModal
+     * @param app Obsidian app instance
+     * @param databaseName Name of the encrypted database
+     * @param errorMessage Error of a previous attempt, e.g. a wrong passphrase
+     * @param onSubmit Callback function called with the passphrase, or null if cancelled
+     */
+    constructor(app: App, databaseName: string, errorMessage: string | null, onSubmit: (passphrase: string | null) => void) {
+        super(app);
+        this.databaseName = databaseName;
+        this.errorMessage = errorMessage;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl, titleEl } = this;
+
+        titleEl.setText('Unlock Database');
+        contentEl.createEl('p', {
+            text: `The PGlite database "${this.databaseName}" is encrypted. Enter its passphrase to open it.`
+        });
+
+        if (this.errorMessage) {
+            contentEl.createEl('p', { text: this.errorMessage }).style.color = 'var(--text-error)';
+        }
+
+        const inputEl = contentEl.createEl('input', { type: 'password', placeholder: 'Passphrase' });
+        inputEl.style.width = '100%';
+        inputEl.style.marginBottom = '10px';
+
+        const buttonContainer = contentEl.createDiv();
+        buttonContainer.style.display = 'flex';
+        buttonContainer.style.justifyContent = 'flex-end';
+
+        const submit = () => {
+            if (!inputEl.value) return;
+            this.submitted = true;
+            this.close();
+            this.onSubmit(inputEl.value);
+        };
+
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.style.marginRight = '10px';
+        cancelButton.addEventListener('click', () => this.close());
+
+        const unlockButton = buttonContainer.createEl('button', { text: 'Unlock', cls: 'mod-cta' });
+        unlockButton.addEventListener('click', submit);
+        inputEl.addEventListener('keydown', (evt) => {
+            if (evt.key === 'Enter') submit();
+        });
+
+        inputEl.focus();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        // Closing the modal without a passphrase counts as cancelling
+        if (!this.submitted) {
+            this.submitted = true;
+            this.onSubmit(null);
+        }
+    }
+}
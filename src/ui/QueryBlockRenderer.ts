@@ -0,0 +1,64 @@
+import { MarkdownRenderChild } from 'obsidian';
+import type PGLitePlugin from '../../main';
+import { LiveQuerySubscription } from '../storage/PGliteProvider';
+import { renderResultsTable } from './ResultsTable';
+
+/**
+ * Renders a `pglite` code block as a live table of its query results
+ *
+ * ````markdown
+ * ```pglite
+ * SELECT id, content FROM vector_test ORDER BY id DESC LIMIT 10
+ * ```
+ * ````
+ */
+export class QueryBlockRenderer extends MarkdownRenderChild {
+    private subscription: LiveQuerySubscription | null = null;
+    private isUnloaded: boolean = false;
+
+    /**
+     * Create a new QueryBlockRenderer
+     * @param containerEl Element of the code block
+     * @param plugin Plugin instance
+     * @param sql Query in the code block
+     */
+    constructor(containerEl: HTMLElement, private plugin: PGLitePlugin, private sql: string) {
+        super(containerEl);
+    }
+
+    async onload() {
+        this.containerEl.setText('Waiting for the PGlite database...');
+        await this.plugin.api.ready;
+        if (this.isUnloaded || !this.plugin.provider) return;
+
+        try {
+            const subscription = await this.plugin.provider.liveQuery(this.sql, [], (rows) => this.render(rows));
+            // The note may have been closed while the query started
+            if (this.isUnloaded) {
+                await subscription.unsubscribe();
+                return;
+            }
+            this.subscription = subscription;
+        } catch (error) {
+            console.error('Error running pglite code block:', error);
+            this.containerEl.empty();
+            this.containerEl.createEl('pre', { text: `Query failed: ${(error as Error).message}` })
+                .style.color = 'var(--text-error)';
+        }
+    }
+
+    onunload() {
+        this.isUnloaded = true;
+        this.subscription?.unsubscribe().catch(error => console.error('Error ending live query:', error));
+        this.subscription = null;
+    }
+
+    private render(rows: Record<string, unknown>[]) {
+        this.containerEl.empty();
+        if (rows.length === 0) {
+            this.containerEl.createEl('p', { text: 'No results found.' });
+            return;
+        }
+        renderResultsTable(this.plugin.app, this.containerEl, rows);
+    }
+}
@@ -1,11 +1,17 @@
 import { App, Modal } from 'obsidian';
+import { LiveQuerySubscription } from '../storage/PGliteProvider';
+import { renderResultsTable } from './ResultsTable';
 
 /**
  * Modal for displaying query results
+ * Results of a live query are re-rendered whenever they change.
  */
 export class ResultsModal extends Modal {
     private results: any[];
     private isVectorSearch: boolean;
+    private subscription: LiveQuerySubscription | null = null;
+    private filterLabels: string[] = [];
+    private isShown: boolean = false;
 
     /**
      * Create a new ResultsModal
@@ -19,86 +25,79 @@ export class ResultsModal extends Modal {
         this.isVectorSearch = isVectorSearch;
     }
 
-    onOpen() {
-        const { contentEl } = this;
-        contentEl.empty();
-
-        contentEl.createEl('h2', { text: 'Query Results' });
-
-        if (this.results.length === 0) {
-            contentEl.createEl('p', { text: 'No results found.' });
-            return;
+    /**
+     * Replace the displayed results
+     * @param results New query results
+     */
+    setResults(results: any[]) {
+        this.results = results;
+        if (this.isShown) {
+            this.render();
         }
+    }
 
-        // Create a table for the results
-        const table = contentEl.createEl('table');
-        table.style.width = '100%';
-        table.style.borderCollapse = 'collapse';
+    /**
+     * Show the filters the results were restricted by as chips above them
+     * @param labels Description of each filter
+     */
+    setFilterLabels(labels: string[]) {
+        this.filterLabels = labels;
+        if (this.isShown) {
+            this.render();
+        }
+    }
 
-        // Create table header
-        const thead = table.createEl('thead');
-        const headerRow = thead.createEl('tr');
+    /**
+     * Keep a live query running while the modal is open
+     * @param subscription Live query that calls setResults(); ended when the modal closes
+     */
+    setSubscription(subscription: LiveQuerySubscription) {
+        this.subscription = subscription;
+    }
 
-        // Get column names from the first result
-        const firstResult = this.results[0];
-        const columns = Object.keys(firstResult);
+    onOpen() {
+        this.isShown = true;
+        this.render();
+    }
 
-        // Add header cells
-        columns.forEach(column => {
-            const th = headerRow.createEl('th', { text: column });
-            th.style.textAlign = 'left';
-            th.style.padding = '8px';
-            th.style.borderBottom = '1px solid #ddd';
-        });
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
 
-        // Create table body
-        const tbody = table.createEl('tbody');
+        this.isShown = false;
+        this.subscription?.unsubscribe().catch(error => console.error('Error ending live query:', error));
+        this.subscription = null;
+    }
 
-        // Add rows for each result
-        this.results.forEach(result => {
-            const row = tbody.createEl('tr');
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
 
-            // Add cells for each column
-            columns.forEach(column => {
-                const td = row.createEl('td');
-                td.style.padding = '8px';
-                td.style.borderBottom = '1px solid #ddd';
+        contentEl.createEl('h2', { text: 'Query Results' });
+        if (this.subscription) {
+            contentEl.createEl('small', { text: 'Updates automatically when the data changes' });
+        }
 
-                // Format the cell content based on the column and value
-                let value = result[column];
+        if (this.filterLabels.length > 0) {
+            const chipsEl = contentEl.createDiv();
+            chipsEl.style.display = 'flex';
+            chipsEl.style.flexWrap = 'wrap';
+            chipsEl.style.gap = '4px';
+            chipsEl.style.margin = '8px 0';
+            for (const label of this.filterLabels) {
+                const chipEl = chipsEl.createEl('span', { text: label });
+                chipEl.style.padding = '2px 8px';
+                chipEl.style.borderRadius = '12px';
+                chipEl.style.fontSize = 'var(--font-ui-smaller)';
+                chipEl.style.backgroundColor = 'var(--background-modifier-hover)';
+            }
+        }
 
-                // Special handling for vector search results
-                if (this.isVectorSearch && column === 'distance') {
-                    // Format distance as a percentage similarity
-                    const similarity = (1 - value) * 100;
-                    td.textContent = `${similarity.toFixed(2)}%`;
-                } else if (column === 'embedding' && Array.isArray(value)) {
-                    // For embedding vectors, show a summary
-                    td.textContent = `[${value.length} dimensions]`;
-                } else if (column === 'content' && typeof value === 'string' && value.length > 100) {
-                    // For long content, show a truncated version
-                    td.textContent = value.substring(0, 100) + '...';
-                    
-                    // Add a button to view the full content
-                    const viewButton = td.createEl('button', { text: 'View' });
-                    viewButton.style.marginLeft = '8px';
-                    viewButton.addEventListener('click', () => {
-                        // Create a modal to display the full content
-                        const contentModal = new Modal(this.app);
-                        contentModal.titleEl.setText('Full Content');
-                        contentModal.contentEl.createEl('pre', { text: value });
-                        contentModal.open();
-                    });
-                } else {
-                    // Default display
-                    td.textContent = String(value);
-                }
-            });
-        });
-    }
+        if (this.results.length === 0) {
+            contentEl.createEl('p', { text: 'No results found.' });
+            return;
+        }
 
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
+        renderResultsTable(this.app, contentEl, this.results, this.isVectorSearch);
     }
 }
@@ -0,0 +1,89 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Render query results as a table
+ * @param app Obsidian app instance, used for the full content modal
+ * @param containerEl Element to render the table into
+ * @param results Query results to display
+ * @param isVectorSearch Whether the results are from a vector search
+ */
+export function renderResultsTable(app: App, containerEl: HTMLElement, results: any[], isVectorSearch: boolean = false): void {
+    // Create a table for the results
+    const table = containerEl.createEl('table');
+    table.style.width = '100%';
+    table.style.borderCollapse = 'collapse';
+
+    // Create table header
+    const thead = table.createEl('thead');
+    const headerRow = thead.createEl('tr');
+
+    // Get column names from the first result
+    const firstResult = results[0];
+    const columns = Object.keys(firstResult);
+
+    // Add header cells
+    columns.forEach(column => {
+        const th = headerRow.createEl('th', { text: column });
+        th.style.textAlign = 'left';
+        th.style.padding = '8px';
+        th.style.borderBottom = '1px solid #ddd';
+    });
+
+    // Create table body
+    const tbody = table.createEl('tbody');
+
+    // Add rows for each result
+    results.forEach(result => {
+        const row = tbody.createEl('tr');
+
+        // Add cells for each column
+        columns.forEach(column => {
+            const td = row.createEl('td');
+            td.style.padding = '8px';
+            td.style.borderBottom = '1px solid #ddd';
+
+            // Format the cell content based on the column and value
+            let value = result[column];
+
+            // Special handling for vector search results
+            if (isVectorSearch && ['score', 'keywordScore', 'semanticScore'].includes(column) && typeof value === 'number') {
+                // Format normalized scores, and the keyword and semantic parts of hybrid scores, as percentages
+                td.textContent = `${(value * 100).toFixed(2)}%`;
+            } else if (isVectorSearch && column === 'distance' && typeof value === 'number') {
+                // The raw distance depends on the metric, so it is shown as is
+                td.textContent = value.toFixed(4);
+            } else if (column === 'path' && typeof value === 'string') {
+                // Link back to the note the row was stored from
+                const link = td.createEl('a', { text: value, href: '#' });
+                link.addEventListener('click', (evt) => {
+                    evt.preventDefault();
+                    // Scroll to the chunk if the row has a line range
+                    const line = typeof result.startLine === 'number' ? result.startLine - 1 : undefined;
+                    app.workspace.openLinkText(value, '', evt.ctrlKey || evt.metaKey, line !== undefined ? { eState: { line } } : undefined);
+                });
+            } else if (column === 'headingPath' && Array.isArray(value)) {
+                td.textContent = value.join(' › ');
+            } else if (column === 'embedding' && Array.isArray(value)) {
+                // For embedding vectors, show a summary
+                td.textContent = `[${value.length} dimensions]`;
+            } else if (column === 'content' && typeof value === 'string' && value.length > 100) {
+                // For long content, show a truncated version
+                td.textContent = value.substring(0, 100) + '...';
+                
+                // Add a button to view the full content
+                const viewButton = td.createEl('button', { text: 'View' });
+                viewButton.style.marginLeft = '8px';
+                viewButton.addEventListener('click', () => {
+                    // Create a modal to display the full content
+                    const contentModal = new Modal(app);
+                    contentModal.titleEl.setText('Full Content');
+                    contentModal.contentEl.createEl('pre', { text: value });
+                    contentModal.open();
+                });
+            } else {
+                // Default display
+                td.textContent = String(value);
+            }
+        });
+    });
+}
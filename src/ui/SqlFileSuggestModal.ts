@@ -0,0 +1,31 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+/**
+ * Modal for picking an SQL file from the vault
+ */
+export class SqlFileSuggestModal extends FuzzySuggestModal<TFile> {
+    private onChoose: (file: TFile) => void;
+
+    /**
+     * Create a new SqlFileSuggestModal
+     * @param app Obsidian app instance
+     * @param onChoose Callback function called with the chosen file
+     */
+    constructor(app: App, onChoose: (file: TFile) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder('Choose an SQL file to import');
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(file => file.extension === 'sql');
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile) {
+        this.onChoose(file);
+    }
+}
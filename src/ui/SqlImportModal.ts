@@ -0,0 +1,73 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Where to import an SQL dump
+ * - current: replace tables of the same name in the active database
+ * - new: create a new database and import into it
+ */
+export type SqlImportTarget = 'current' | 'new';
+
+/**
+ * Modal asking where an SQL dump should be imported
+ */
+export class SqlImportModal extends Modal {
+    private fileName: string;
+    private databaseName: string;
+    private onChoose: (target: SqlImportTarget) => void;
+
+    /**
+     * Create a new SqlImportModal
+     * @param app Obsidian app instance
+     * @param fileName Name of the SQL file being imported
+     * @param databaseName Name of the active database
+     * @param onChoose Callback function called with the chosen target
+     */
+    constructor(app: App, fileName: string, databaseName: string, onChoose: (target: SqlImportTarget) => void) {
+        super(app);
+        this.fileName = fileName;
+        this.databaseName = databaseName;
+        this.onChoose = onChoose;
+    }
+
+    onOpen() {
+        const { contentEl, titleEl } = this;
+
+        titleEl.setText('Import SQL File');
+
+        contentEl.createEl('p', {
+            text: `Import "${this.fileName}" into a new database, or into the active database "${this.databaseName}".`
+        });
+
+        contentEl.createEl('p', {
+            text: 'Importing into the active database replaces tables that are in the dump. A backup is taken first.',
+            cls: 'warning'
+        }).style.color = 'var(--text-warning)';
+
+        // Add buttons
+        const buttonContainer = contentEl.createDiv();
+        buttonContainer.style.display = 'flex';
+        buttonContainer.style.justifyContent = 'flex-end';
+        buttonContainer.style.marginTop = '20px';
+
+        const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+        cancelButton.style.marginRight = '10px';
+        cancelButton.addEventListener('click', () => this.close());
+
+        const currentButton = buttonContainer.createEl('button', { text: 'Replace in active database', cls: 'mod-warning' });
+        currentButton.style.marginRight = '10px';
+        currentButton.addEventListener('click', () => this.choose('current'));
+
+        const newButton = buttonContainer.createEl('button', { text: 'Import into new database', cls: 'mod-cta' });
+        newButton.addEventListener('click', () => this.choose('new'));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+
+    private choose(target: SqlImportTarget) {
+        this.close();
+        this.onChoose(target);
+    }
+}
@@ -0,0 +1,60 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Modal asking for a single line of text
+ */
+export class TextInputModal extends Modal {
+    private title: string;
+    private initialValue: string;
+    private submitText: string;
+    private onSubmit: (value: string) => void;
+
+    /**
+     * Create a new TextInputModal
+     * @param app Obsidian app instance
+     * @param title Modal title
+     * @param initialValue Value the input starts with
+     * @param submitText Label of the submit button
+     * @param onSubmit Callback function called with the entered value
+     */
+    constructor(app: App, title: string, initialValue: string, submitText: string, onSubmit: (value: string) => void) {
+        super(app);
+        this.title = title;
+        this.initialValue = initialValue;
+        this.submitText = submitText;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl, titleEl } = this;
+
+        titleEl.setText(this.title);
+
+        const inputEl = contentEl.createEl('input', { type: 'text', value: this.initialValue });
+        inputEl.style.width = '100%';
+        inputEl.style.marginBottom = '10px';
+
+        const buttonContainer = contentEl.createDiv();
+        buttonContainer.style.display = 'flex';
+        buttonContainer.style.justifyContent = 'flex-end';
+
+        const submit = () => {
+            this.close();
+            this.onSubmit(inputEl.value.trim());
+        };
+
+        const submitButton = buttonContainer.createEl('button', { text: this.submitText, cls: 'mod-cta' });
+        submitButton.addEventListener('click', submit);
+        inputEl.addEventListener('keydown', (evt) => {
+            if (evt.key === 'Enter') submit();
+        });
+
+        inputEl.focus();
+        inputEl.select();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
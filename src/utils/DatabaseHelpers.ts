@@ -1,8 +1,10 @@
 import { Notice } from 'obsidian';
-import { PGliteProvider } from '../storage/PGliteProvider';
+import { LiveQuerySubscription, PGliteProvider } from '../storage/PGliteProvider';
 
 /**
  * Create a basic test table in the database
+ * The schema migrations already create this table on startup; this only
+ * recreates it if it was dropped since.
  * @param provider The PGlite provider instance
  */
 export async function createTable(provider: PGliteProvider): Promise<void> {
@@ -63,9 +65,6 @@ export async function insertNoteData(provider: PGliteProvider, title: string, co
     }
 
     try {
-        // Make sure the table exists
-        await createTable(provider);
-        
         // Use query method for parameterized queries
         interface InsertResult {
             id: number;
@@ -106,3 +105,20 @@ export async function queryAllData(provider: PGliteProvider): Promise<any[]> {
         throw error;
     }
 }
+
+/**
+ * Query all data from the test table and keep the results up to date
+ * @param provider The PGlite provider instance
+ * @param callback Called with all rows whenever the table changes
+ * @returns Subscription to end the live query
+ */
+export async function watchAllData(
+    provider: PGliteProvider,
+    callback: (rows: any[]) => void
+): Promise<LiveQuerySubscription> {
+    if (!provider.isReady()) {
+        throw new Error('Database is not initialized');
+    }
+
+    return provider.liveQuery('SELECT * FROM test_table', [], callback);
+}
@@ -0,0 +1,15 @@
+/**
+ * Format a byte count for display
+ * @param bytes Number of bytes
+ * @returns Human readable size, e.g. "1.5 MB"
+ */
+export function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,12 @@
+/**
+ * Compute the SHA-256 digest of the given data
+ * @param data Binary data or a string (encoded as UTF-8)
+ * @returns Lowercase hex encoded digest
+ */
+export async function sha256Hex(data: ArrayBuffer | Uint8Array | string): Promise<string> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+}
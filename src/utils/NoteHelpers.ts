@@ -0,0 +1,29 @@
+import { App, TFile, getAllTags } from 'obsidian';
+import { NoteRecord } from '../storage/PGliteVectorStore';
+import { sha256Hex } from './HashHelpers';
+
+/**
+ * Collect a note's content and metadata for the vector table
+ * @param app Obsidian app instance
+ * @param file The note
+ * @param content Content to store, e.g. unsaved editor content; read from the vault if omitted
+ * @returns The note record
+ */
+export async function getNoteRecord(app: App, file: TFile, content?: string): Promise<NoteRecord> {
+    const text = content ?? await app.vault.cachedRead(file);
+    const cache = app.metadataCache.getFileCache(file);
+
+    // Obsidian adds the position of the frontmatter block, which is not part of it
+    const frontmatter: Record<string, unknown> = { ...cache?.frontmatter };
+    delete frontmatter.position;
+
+    return {
+        path: file.path,
+        basename: file.basename,
+        mtime: file.stat.mtime,
+        contentHash: await sha256Hex(text),
+        frontmatter,
+        tags: Array.from(new Set((cache ? getAllTags(cache) ?? [] : []).map(tag => tag.replace(/^#/, '')))),
+        content: text
+    };
+}
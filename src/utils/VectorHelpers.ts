@@ -1,6 +1,8 @@
 import { Notice } from 'obsidian';
 import { EmbeddingModel } from '../models/EmbeddingModel';
-import { PGliteVectorStore } from '../storage/PGliteVectorStore';
+import { EmbeddedChunk, NoteRecord, PGliteVectorStore, VectorSearchOptions, VectorSearchResult } from '../storage/PGliteVectorStore';
+import { ChunkOptions, DEFAULT_CHUNK_OPTIONS, chunkMarkdown } from '../indexing/MarkdownChunker';
+import { LiveQuerySubscription } from '../storage/PGliteProvider';
 
 /**
  * Get the name of the embedding model
@@ -69,12 +71,42 @@ export async function insertContentAsVector(
     }
     
     // Insert vector
-    const id = await store.insertVector(content, vector);
+    return store.insertVector(content, vector);
+}
+
+/**
+ * Split a note into chunks, embed them and store them, replacing the stored chunks of the same path
+ * Notes whose content hash matches the stored one are skipped without embedding.
+ * @param model The embedding model
+ * @param store The vector store
+ * @param note The note to store
+ * @param chunkOptions How to split the note into chunks
+ * @returns IDs of the stored chunks, and whether the note was unchanged and skipped
+ */
+export async function upsertNoteAsVector(
+    model: EmbeddingModel,
+    store: PGliteVectorStore,
+    note: NoteRecord,
+    chunkOptions: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): Promise<{ ids: number[], skipped: boolean }> {
+    if (await store.getContentHash(note.path) === note.contentHash) {
+        return { ids: [], skipped: true };
+    }
     
-    // Save changes
-    await store.save();
+    const chunks: EmbeddedChunk[] = [];
+    for (const chunk of chunkMarkdown(note.content, chunkOptions)) {
+        // The note title and headings give the chunk the context it lacks on its own
+        const context = [note.basename, ...chunk.headingPath].join(' > ');
+        const vector = await model.generateEmbedding(`${context}\n\n${chunk.content}`);
+        
+        // Check dimensions
+        if (vector.length !== model.dimensions) {
+            console.warn(`Warning: Expected ${model.dimensions} dimensions but got ${vector.length}`);
+        }
+        chunks.push({ chunk, vector });
+    }
     
-    return id;
+    return { ids: await store.upsertNote(note, chunks), skipped: false };
 }
 
 /**
@@ -82,14 +114,14 @@ export async function insertContentAsVector(
  * @param model The embedding model
  * @param store The vector store
  * @param content Text to search for similar content
- * @param limit Maximum number of results to return
+ * @param options Search options
  * @returns Array of similar content with similarity scores
  */
 export async function searchSimilarContent(
     model: EmbeddingModel,
     store: PGliteVectorStore,
     content: string,
-    limit?: number
+    options: VectorSearchOptions = {}
 ): Promise<any[]> {
     // Generate embedding
     const vector = await model.generateEmbedding(content);
@@ -100,7 +132,35 @@ export async function searchSimilarContent(
     }
     
     // Search for similar vectors
-    return store.searchSimilar(vector, limit);
+    return store.searchSimilar(vector, options);
+}
+
+/**
+ * Search for content similar to the given text and keep the results up to date
+ * @param model The embedding model
+ * @param store The vector store
+ * @param content Text to search for similar content
+ * @param options Search options; each note is shown once unless bestChunkPerNote is false
+ * @param callback Called with the current results whenever the vector table changes
+ * @returns Subscription to end the live search
+ */
+export async function watchSimilarContent(
+    model: EmbeddingModel,
+    store: PGliteVectorStore,
+    content: string,
+    options: VectorSearchOptions,
+    callback: (results: VectorSearchResult[]) => void
+): Promise<LiveQuerySubscription> {
+    // Generate embedding once; only the search is re-run on changes
+    const vector = await model.generateEmbedding(content);
+    
+    // Check dimensions
+    if (vector.length !== model.dimensions) {
+        console.warn(`Warning: Expected ${model.dimensions} dimensions but got ${vector.length}`);
+    }
+    
+    // Show each note once, represented by its most similar chunk
+    return store.watchSimilar(vector, { bestChunkPerNote: true, ...options }, callback);
 }
 
 /**
@@ -137,5 +197,4 @@ export async function checkTableCompatibility(
  */
 export async function recreateVectorTable(store: PGliteVectorStore): Promise<void> {
     await store.createTable(true);
-    await store.save();
 }
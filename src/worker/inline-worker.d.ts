@@ -0,0 +1,7 @@
+/**
+ * Source text of a worker bundled by the inline-worker esbuild plugin
+ */
+declare module 'inline-worker:*' {
+    const source: string;
+    export default source;
+}
@@ -0,0 +1,22 @@
+import { PGlite } from '@electric-sql/pglite';
+import { worker } from '@electric-sql/pglite/worker';
+
+/**
+ * Worker that hosts PGlite off Obsidian's main thread
+ * esbuild bundles this file on its own and inlines it into main.js as source text
+ * (see esbuild.config.mjs), so it can be started from a blob URL.
+ *
+ * Extensions cannot be passed to a worker, so the vector extension bundle URL
+ * arrives in the `meta` option instead.
+ */
+worker({
+    async init(options) {
+        const { meta, ...pgliteOptions } = options;
+        return PGlite.create({
+            ...pgliteOptions,
+            extensions: {
+                vector: new URL(meta.vectorExtensionBundlePath)
+            }
+        });
+    }
+});